@@ -0,0 +1,179 @@
+/**
+ * Tests for wrapAnthropic
+ */
+
+import { SubtextClient } from '../client';
+import { wrapAnthropic, WrapAnthropicOptions } from '../integrations/anthropic';
+import { RecordedExchange } from '../integrations/recorder';
+import { createTestClient } from '../testing';
+import { createClientStub } from './helpers';
+
+const anthropicMessage = {
+  id: 'msg_01',
+  type: 'message',
+  role: 'assistant',
+  model: 'claude-sonnet-4-5',
+  content: [
+    { type: 'text', text: 'Let me check the weather.' },
+    { type: 'tool_use', id: 'toolu_01', name: 'get_weather', input: { city: 'Paris' } },
+  ],
+  stop_reason: 'tool_use',
+  usage: { input_tokens: 25, output_tokens: 14 },
+};
+
+async function* events() {
+  yield { type: 'message_start', message: { model: 'claude-sonnet-4-5', usage: { input_tokens: 25, output_tokens: 1 } } };
+  yield { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } };
+  yield { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Let me check ' } };
+  yield { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'the weather.' } };
+  yield { type: 'content_block_stop', index: 0 };
+  yield { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', name: 'get_weather', input: {} } };
+  yield { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"city":' } };
+  yield { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"Paris"}' } };
+  yield { type: 'content_block_stop', index: 1 };
+  yield { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 14 } };
+  yield { type: 'message_stop' };
+}
+
+const createAnthropicStub = () => {
+  const messageStream = {
+    on: jest.fn(),
+    finalMessage: jest.fn(async () => anthropicMessage),
+  };
+  return {
+    messageStream,
+    messages: {
+      create: jest.fn(async (params: { stream?: boolean; [key: string]: unknown }) => {
+        if (params.stream) {
+          return { [Symbol.asyncIterator]: events };
+        }
+        return anthropicMessage;
+      }),
+      stream: jest.fn((_params: { [key: string]: unknown }) => messageStream),
+    },
+  };
+};
+
+const params = {
+  model: 'claude-sonnet-4-5',
+  max_tokens: 1024,
+  system: 'You are a weather bot.',
+  messages: [
+    { role: 'user', content: 'What is the weather in Paris?' },
+    { role: 'assistant', content: [{ type: 'tool_use', name: 'get_weather', input: { city: 'Paris' } }] },
+    { role: 'user', content: [{ type: 'tool_result', content: 'Sunny, 21°C' }] },
+  ],
+};
+
+const expectedResponse = 'Let me check the weather.\n[tool_use: get_weather({"city":"Paris"})]';
+
+describe('wrapAnthropic', () => {
+  let subtext: ReturnType<typeof createClientStub>;
+
+  beforeEach(() => {
+    subtext = createClientStub();
+  });
+
+  const wrap = (anthropic: ReturnType<typeof createAnthropicStub>, options: WrapAnthropicOptions) => {
+    let recorded!: (exchange: RecordedExchange) => void;
+    const done = new Promise<RecordedExchange>((resolve) => {
+      recorded = resolve;
+    });
+    const client = wrapAnthropic(anthropic, subtext as unknown as SubtextClient, {
+      ...options,
+      onRecorded: recorded,
+    });
+    return { client, done };
+  };
+
+  it('should record messages.create calls', async () => {
+    const anthropic = createAnthropicStub();
+    const { client, done } = wrap(anthropic, { threadId: 'thread-123' });
+
+    const result = await client.messages.create({ ...params, messages: params.messages.slice(0, 1) });
+    await done;
+
+    expect(result).toBe(anthropicMessage);
+    expect(subtext.message).toHaveBeenCalledWith({
+      threadId: 'thread-123',
+      message: 'What is the weather in Paris?',
+      messageId: expect.stringMatching(/^msg_/),
+    });
+    expect(subtext.run).toHaveBeenCalledWith(expect.objectContaining({
+      threadId: 'thread-123',
+      response: expectedResponse,
+      model: 'claude-sonnet-4-5',
+      provider: 'anthropic',
+      promptTokens: 25,
+      completionTokens: 14,
+      maxTokens: 1024,
+      finishReason: 'tool_use',
+    }));
+  });
+
+  it('should not record tool results as a user message', async () => {
+    const anthropic = createAnthropicStub();
+    const { client, done } = wrap(anthropic, { threadId: 'thread-123' });
+
+    await client.messages.create(params);
+    const { message } = await done;
+
+    expect(message).toBeUndefined();
+    expect(subtext.message).not.toHaveBeenCalled();
+    expect(subtext.run).toHaveBeenCalledWith(expect.objectContaining({
+      threadId: 'thread-123',
+      response: expectedResponse,
+      messageId: undefined,
+    }));
+  });
+
+  it('should record streamed messages.create calls', async () => {
+    const anthropic = createAnthropicStub();
+    const { client, done } = wrap(anthropic, { threadId: 'thread-123' });
+
+    const stream = await client.messages.create({ ...params, stream: true });
+    let count = 0;
+    for await (const _event of stream as AsyncIterable<unknown>) {
+      count += 1;
+    }
+    await done;
+
+    expect(count).toBe(11);
+    expect(subtext.run).toHaveBeenCalledWith(expect.objectContaining({
+      response: expectedResponse,
+      promptTokens: 25,
+      completionTokens: 14,
+      finishReason: 'tool_use',
+    }));
+  });
+
+  it('should record messages.stream calls and return the original stream', async () => {
+    const anthropic = createAnthropicStub();
+    const { client, done } = wrap(anthropic, { threadId: 'thread-123' });
+
+    const stream = client.messages.stream(params);
+    await done;
+
+    expect(stream).toBe(anthropic.messageStream);
+    expect(subtext.run).toHaveBeenCalledWith(expect.objectContaining({
+      response: expectedResponse,
+    }));
+  });
+
+  it('should pick the thread for each request', async () => {
+    const testClient = createTestClient();
+    let recorded!: (exchange: RecordedExchange) => void;
+    const done = new Promise<RecordedExchange>((resolve) => {
+      recorded = resolve;
+    });
+    const client = wrapAnthropic(createAnthropicStub(), testClient, {
+      threadId: (request) => `thread-${request.metadata.user_id}`,
+      onRecorded: recorded,
+    });
+
+    await client.messages.create({ ...params, metadata: { user_id: 'user-456' } });
+    await done;
+
+    expect(testClient.recordedRuns('thread-user-456').map((run) => run.response)).toEqual([expectedResponse]);
+  });
+});
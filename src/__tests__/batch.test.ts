@@ -0,0 +1,201 @@
+/**
+ * Tests for BatchQueue
+ */
+
+import { BatchItem, BatchQueue, BatchResult } from '../batch';
+import { Message, Thread } from '../models';
+import { SubtextAPIError, SubtextNotFoundError } from '../exceptions';
+
+const threadItem = (threadId: string): BatchItem => ({
+  kind: 'thread',
+  payload: { thread_id: threadId },
+});
+
+const messageItem = (threadId: string, messageId: string): BatchItem => ({
+  kind: 'message',
+  payload: { thread_id: threadId, message: 'Hello', message_id: messageId },
+});
+
+const toResult = (item: BatchItem): BatchResult => {
+  if (item.kind === 'thread') {
+    return new Thread({
+      id: '1',
+      thread_id: item.payload.thread_id,
+      created_at: '2023-01-01T00:00:00Z',
+      modified_at: '2023-01-01T00:00:00Z',
+    });
+  }
+  return new Message({
+    id: '2',
+    thread_id: item.payload.thread_id,
+    message: 'Hello',
+    message_id: (item.payload as { message_id: string }).message_id,
+    created_at: '2023-01-01T00:00:00Z',
+  });
+};
+
+describe('BatchQueue', () => {
+  let send: jest.Mock<Promise<BatchResult>, [BatchItem]>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    send = jest.fn(async (item: BatchItem) => toResult(item));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should flush after the flush interval', async () => {
+    const queue = new BatchQueue(send, { flushInterval: 500 });
+    const result = queue.enqueue<Thread>(threadItem('thread-1'));
+
+    expect(send).not.toHaveBeenCalled();
+    expect(queue.size).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(500);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect((await result).threadId).toBe('thread-1');
+    expect(queue.size).toBe(0);
+  });
+
+  it('should flush once the size limit is reached', async () => {
+    const queue = new BatchQueue(send, { maxBatchSize: 2 });
+    queue.enqueue(threadItem('thread-1'));
+    const second = queue.enqueue(threadItem('thread-2'));
+
+    await second;
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should split batches by byte limit', async () => {
+    const resolvers: Array<() => void> = [];
+    send.mockImplementation(
+      (item) => new Promise((resolve) => resolvers.push(() => resolve(toResult(item))))
+    );
+
+    const queue = new BatchQueue(send, { maxBatchBytes: 30 });
+    queue.enqueue(threadItem('thread-1'));
+    queue.enqueue(threadItem('thread-2'));
+    const flushed = queue.flush();
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    resolvers[0]();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(send).toHaveBeenCalledTimes(2);
+
+    resolvers[1]();
+    await flushed;
+  });
+
+  it('should send threads before messages within a batch', async () => {
+    const order: string[] = [];
+    send.mockImplementation(async (item) => {
+      order.push(item.kind);
+      return toResult(item);
+    });
+
+    const queue = new BatchQueue(send);
+    queue.enqueue(messageItem('thread-1', 'msg-1'));
+    queue.enqueue(threadItem('thread-1'));
+    await queue.flush();
+
+    expect(order).toEqual(['thread', 'message']);
+  });
+
+  it('should send the items of each thread in order', async () => {
+    const resolvers = new Map<string, () => void>();
+    send.mockImplementation(
+      (item) => new Promise((resolve) => {
+        resolvers.set((item.payload as { message_id: string }).message_id, () => resolve(toResult(item)));
+      })
+    );
+
+    const queue = new BatchQueue(send);
+    queue.enqueue(messageItem('thread-1', 'msg-1'));
+    queue.enqueue(messageItem('thread-1', 'msg-2'));
+    queue.enqueue(messageItem('thread-2', 'msg-3'));
+    const flushed = queue.flush();
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect([...resolvers.keys()]).toEqual(['msg-1', 'msg-3']);
+
+    resolvers.get('msg-1')!();
+    await jest.advanceTimersByTimeAsync(0);
+    expect([...resolvers.keys()]).toEqual(['msg-1', 'msg-3', 'msg-2']);
+
+    resolvers.get('msg-2')!();
+    resolvers.get('msg-3')!();
+    await flushed;
+  });
+
+  it('should keep the process alive until queued items are sent', async () => {
+    jest.useRealTimers();
+    const setTimeoutSpy = jest.spyOn(global, 'setTimeout');
+
+    try {
+      const queue = new BatchQueue(send, { flushInterval: 10 });
+      const result = queue.enqueue<Thread>(threadItem('thread-1'));
+
+      expect(setTimeoutSpy.mock.results[setTimeoutSpy.mock.results.length - 1].value.hasRef()).toBe(true);
+      expect((await result).threadId).toBe('thread-1');
+    } finally {
+      setTimeoutSpy.mockRestore();
+    }
+  });
+
+  it('should reject queued items when stopped', async () => {
+    const onError = jest.fn();
+    const queue = new BatchQueue(send, { onError });
+    const result = queue.enqueue(threadItem('thread-1'));
+
+    queue.stop();
+
+    await expect(result).rejects.toThrow('Client was closed; request not sent');
+    expect(onError).toHaveBeenCalledWith(threadItem('thread-1'), expect.any(SubtextAPIError));
+    expect(queue.size).toBe(0);
+    expect(jest.getTimerCount()).toBe(0);
+    await queue.flush();
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should report per-item success and failure', async () => {
+    const onSuccess = jest.fn();
+    const onError = jest.fn();
+    send.mockImplementation(async (item) => {
+      if (item.kind === 'message') {
+        throw new SubtextNotFoundError('Thread not found');
+      }
+      return toResult(item);
+    });
+
+    const queue = new BatchQueue(send, { onSuccess, onError });
+    const thread = queue.enqueue(threadItem('thread-1'));
+    const message = queue.enqueue(messageItem('thread-2', 'msg-1'));
+    await queue.flush();
+
+    await expect(thread).resolves.toBeInstanceOf(Thread);
+    await expect(message).rejects.toBeInstanceOf(SubtextNotFoundError);
+    expect(onSuccess).toHaveBeenCalledWith(threadItem('thread-1'), expect.any(Thread));
+    expect(onError).toHaveBeenCalledWith(
+      messageItem('thread-2', 'msg-1'),
+      expect.any(SubtextNotFoundError)
+    );
+  });
+
+  it('should keep delivering when a callback throws', async () => {
+    const onSuccess = jest.fn(() => {
+      throw new Error('callback failed');
+    });
+
+    const queue = new BatchQueue(send, { onSuccess });
+    queue.enqueue(threadItem('thread-1'));
+    queue.enqueue(threadItem('thread-2'));
+    await queue.flush();
+
+    expect(onSuccess).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Tests for CircuitBreaker
+ */
+
+import { CircuitBreaker, CircuitState } from '../circuit-breaker';
+import {
+  SubtextCircuitOpenError,
+  SubtextConnectionError,
+  SubtextServerError,
+  SubtextValidationError,
+} from '../exceptions';
+
+describe('CircuitBreaker', () => {
+  const serverError = () => new SubtextServerError('Internal server error', 503);
+  let changes: Array<[CircuitState, CircuitState]>;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    changes = [];
+    breaker = new CircuitBreaker({
+      failureThreshold: 3,
+      resetTimeout: 10000,
+      onStateChange: (state, previous) => changes.push([state, previous]),
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const fail = (error: Error = serverError()) =>
+    breaker.execute(() => Promise.reject(error)).catch((caught) => caught);
+
+  it('should open after consecutive transient failures', async () => {
+    await fail();
+    await fail(new SubtextConnectionError('Connection refused'));
+    expect(breaker.state).toBe('closed');
+    expect(breaker.consecutiveFailures).toBe(2);
+
+    await fail();
+    expect(breaker.state).toBe('open');
+    expect(changes).toEqual([['open', 'closed']]);
+  });
+
+  it('should fail fast while open', async () => {
+    await fail();
+    await fail();
+    await fail();
+
+    const request = jest.fn().mockResolvedValue('ok');
+    await expect(breaker.execute(request)).rejects.toThrow(SubtextCircuitOpenError);
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('should reset the count on success and ignore non-transient errors', async () => {
+    await fail();
+    await fail();
+    await breaker.execute(() => Promise.resolve('ok'));
+    await fail(new SubtextValidationError('Invalid thread ID'));
+    await fail();
+    await fail();
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should let a single probe through once half-open and close on success', async () => {
+    await fail();
+    await fail();
+    await fail();
+    jest.advanceTimersByTime(10000);
+    expect(breaker.state).toBe('half-open');
+
+    let resolveProbe!: (value: string) => void;
+    const probe = breaker.execute(() => new Promise<string>((resolve) => {
+      resolveProbe = resolve;
+    }));
+    await expect(breaker.execute(() => Promise.resolve('other'))).rejects.toThrow(SubtextCircuitOpenError);
+
+    resolveProbe('ok');
+    await expect(probe).resolves.toBe('ok');
+    expect(breaker.state).toBe('closed');
+    expect(changes).toEqual([
+      ['open', 'closed'],
+      ['half-open', 'open'],
+      ['closed', 'half-open'],
+    ]);
+  });
+
+  it('should open again when the probe fails', async () => {
+    await fail();
+    await fail();
+    await fail();
+    jest.advanceTimersByTime(10000);
+
+    await fail();
+    expect(breaker.state).toBe('open');
+    jest.advanceTimersByTime(9999);
+    expect(breaker.state).toBe('open');
+    jest.advanceTimersByTime(1);
+    expect(breaker.state).toBe('half-open');
+  });
+
+  it('should close when reset', async () => {
+    await fail();
+    await fail();
+    await fail();
+
+    breaker.reset();
+    expect(breaker.state).toBe('closed');
+    expect(breaker.consecutiveFailures).toBe(0);
+  });
+
+  it('should be a SubtextConnectionError so spooling picks it up', () => {
+    expect(new SubtextCircuitOpenError()).toBeInstanceOf(SubtextConnectionError);
+  });
+});
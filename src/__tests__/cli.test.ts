@@ -0,0 +1,132 @@
+/**
+ * Tests for the command line interface
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseArgs } from '../args';
+import { main } from '../cli';
+import { SubtextClient } from '../client';
+import { startMockServer } from '../mock-server';
+
+const createOutput = () => {
+  const lines: string[] = [];
+  const errors: string[] = [];
+  return {
+    lines,
+    errors,
+    output: { log: (line: string) => lines.push(line), error: (line: string) => errors.push(line) },
+  };
+};
+
+describe('parseArgs', () => {
+  const options = {
+    format: { type: 'string' },
+    thread: { type: 'string', multiple: true },
+    'dry-run': { type: 'boolean' },
+    help: { type: 'boolean', short: 'h' },
+  } as const;
+
+  it('should read values, repeated options, flags and positionals', () => {
+    const { values, positionals } = parseArgs({
+      args: ['--format=csv', '--thread', 't1', 'a.jsonl', '--thread', 't2', '--dry-run', '-h', '--', '--b.jsonl'],
+      options,
+      allowPositionals: true,
+    });
+
+    expect(values).toEqual({ format: 'csv', thread: ['t1', 't2'], 'dry-run': true, help: true });
+    expect(positionals).toEqual(['a.jsonl', '--b.jsonl']);
+  });
+
+  it('should reject unknown options, missing values and unexpected arguments', () => {
+    expect(() => parseArgs({ args: ['--port', '80'], options })).toThrow("Unknown option '--port'");
+    expect(() => parseArgs({ args: ['--format'], options })).toThrow("Option '--format <value>' argument missing");
+    expect(() => parseArgs({ args: ['--dry-run=yes'], options })).toThrow("Option '--dry-run' does not take a value");
+    expect(() => parseArgs({ args: ['a.jsonl'], options })).toThrow("Unexpected argument 'a.jsonl'");
+  });
+});
+
+describe('main', () => {
+  it('should print usage without a command', async () => {
+    const { lines, output } = createOutput();
+
+    expect(await main([], output)).toBe(1);
+    expect(lines[0]).toContain('Usage: subtext <command>');
+  });
+
+  it('should reject unknown commands', async () => {
+    const { errors, output } = createOutput();
+
+    expect(await main(['serve'], output)).toBe(1);
+    expect(errors[0]).toContain('Unknown command: serve');
+  });
+
+  it('should print the help of a command', async () => {
+    const { lines, output } = createOutput();
+
+    expect(await main(['mock-server', '--help'], output)).toBe(0);
+    expect(lines[0]).toContain('--api-key <key>');
+  });
+
+  it('should report invalid options', async () => {
+    const { errors, output } = createOutput();
+
+    expect(await main(['mock-server', '--port', 'abc'], output)).toBe(1);
+    expect(errors).toEqual(['Error: Invalid port: abc']);
+  });
+});
+
+describe('import', () => {
+  it('should count the conversations of a file in a dry run', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'subtext-cli-'));
+    const file = path.join(directory, 'turns.csv');
+    await fs.writeFile(file, 'thread_id,role,content\nt1,user,Hello\nt1,assistant,Hi!\nt2,user,Hey\n');
+    const { lines, output } = createOutput();
+
+    try {
+      expect(await main(['import', '--dry-run', file], output)).toBe(0);
+      expect(lines).toEqual(['Dry run: would import 2 of 2 conversations (2 messages, 1 runs)']);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should require an API key', async () => {
+    const { errors, output } = createOutput();
+    const apiKey = process.env.SUBTEXT_API_KEY;
+    delete process.env.SUBTEXT_API_KEY;
+
+    try {
+      expect(await main(['import', 'chats.jsonl'], output)).toBe(1);
+      expect(errors[0]).toContain('An API key is required');
+    } finally {
+      if (apiKey !== undefined) {
+        process.env.SUBTEXT_API_KEY = apiKey;
+      }
+    }
+  });
+});
+
+describe('export', () => {
+  it('should export threads from the API to a file', async () => {
+    const server = await startMockServer();
+    const client = new SubtextClient({ apiKey: 'test-api-key', baseUrl: server.url });
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'subtext-cli-'));
+    const file = path.join(directory, 'threads.md');
+    const { errors, output } = createOutput();
+
+    try {
+      await client.thread({ threadId: 'thread-1' });
+      await client.message({ threadId: 'thread-1', message: 'Hello', messageId: 'msg-1' });
+
+      const args = ['export', '--format', 'markdown', '--output', file, '--api-key', 'key', '--base-url', server.url];
+      expect(await main(args, output)).toBe(0);
+      expect(await fs.readFile(file, 'utf8')).toContain('> Hello');
+      expect(errors).toEqual(['Exported 1 threads (1 messages, 0 runs)']);
+    } finally {
+      await server.close();
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -3,12 +3,16 @@
  */
 
 import axios from 'axios';
-import { SubtextClient } from '../client';
+import { SubtextClient, SubtextClientOptions } from '../client';
+import { Message, NotSampled, Run } from '../models';
 import {
   SubtextAPIError,
   SubtextAuthenticationError,
   SubtextValidationError,
   SubtextNotFoundError,
+  SubtextConflictError,
+  SubtextCircuitOpenError,
+  SubtextRateLimitError,
   SubtextServerError,
   SubtextConnectionError,
   SubtextTimeoutError,
@@ -19,7 +23,7 @@ jest.mock('axios');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
 
 describe('SubtextClient', () => {
-  let client: SubtextClient;
+  let client: SubtextClient<{ apiKey: string }>;
   const mockAxiosInstance = {
     request: jest.fn(),
     interceptors: {
@@ -97,6 +101,7 @@ describe('SubtextClient', () => {
           thread_id: 'thread-123',
           user_id: 'user-456',
         },
+        headers: { 'Idempotency-Key': expect.any(String) },
       });
 
       expect(thread.threadId).toBe('thread-123');
@@ -139,6 +144,7 @@ describe('SubtextClient', () => {
           message: 'Hello, world!',
           message_id: 'msg-456',
         },
+        headers: { 'Idempotency-Key': expect.any(String) },
       });
 
       expect(message.messageId).toBe('msg-456');
@@ -196,11 +202,770 @@ describe('SubtextClient', () => {
           run_id: 'run-789',
           response: 'Hello! How can I help?',
         },
+        headers: { 'Idempotency-Key': expect.any(String) },
       });
 
       expect(run.runId).toBe('run-789');
       expect(run.response).toBe('Hello! How can I help?');
     });
+
+    it('should send run metadata', async () => {
+      mockAxiosInstance.request.mockResolvedValue({
+        data: {
+          data: {
+            run_id: 'run-789',
+            thread_id: 'thread-123',
+            response: 'Hello! How can I help?',
+            created_at: '2023-01-01T00:00:00Z',
+            model: 'gpt-4o',
+            provider: 'openai',
+            prompt_tokens: 12,
+            completion_tokens: 8,
+            total_tokens: 20,
+            latency_ms: 1500,
+            temperature: 0.7,
+            finish_reason: 'stop',
+          },
+          status: 201,
+        },
+      });
+
+      const run = await client.run({
+        threadId: 'thread-123',
+        runId: 'run-789',
+        response: 'Hello! How can I help?',
+        model: 'gpt-4o',
+        provider: 'openai',
+        promptTokens: 12,
+        completionTokens: 8,
+        startedAt: new Date('2023-01-01T00:00:00Z'),
+        endedAt: '2023-01-01T00:00:01.500Z',
+        temperature: 0.7,
+        finishReason: 'stop',
+      });
+
+      expect(mockAxiosInstance.request).toHaveBeenCalledWith({
+        method: 'POST',
+        url: '/api/runs',
+        data: {
+          thread_id: 'thread-123',
+          run_id: 'run-789',
+          response: 'Hello! How can I help?',
+          model: 'gpt-4o',
+          provider: 'openai',
+          prompt_tokens: 12,
+          completion_tokens: 8,
+          total_tokens: 20,
+          latency_ms: 1500,
+          started_at: '2023-01-01T00:00:00.000Z',
+          ended_at: '2023-01-01T00:00:01.500Z',
+          temperature: 0.7,
+          finish_reason: 'stop',
+        },
+        headers: { 'Idempotency-Key': expect.any(String) },
+      });
+
+      expect(run.model).toBe('gpt-4o');
+      expect(run.totalTokens).toBe(20);
+      expect(run.latencyMs).toBe(1500);
+      expect(run.finishReason).toBe('stop');
+    });
+
+    it('should validate run metadata', async () => {
+      const base = { threadId: 'thread-1', runId: 'run-1', response: 'ok' };
+
+      await expect(client.run({ ...base, promptTokens: -1 }))
+        .rejects.toThrow('promptTokens must be a non-negative integer');
+      await expect(client.run({ ...base, temperature: 3 }))
+        .rejects.toThrow('temperature must be between 0 and 2');
+      await expect(client.run({ ...base, topP: 1.5 }))
+        .rejects.toThrow('topP must be between 0 and 1');
+      await expect(client.run({ ...base, startedAt: 'not a date' }))
+        .rejects.toThrow('startedAt must be a valid date');
+      await expect(client.run({
+        ...base,
+        startedAt: '2023-01-01T00:00:01Z',
+        endedAt: '2023-01-01T00:00:00Z',
+      })).rejects.toThrow('endedAt must not be before startedAt');
+
+      expect(mockAxiosInstance.request).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getThread', () => {
+    it('should retrieve a thread by ID', async () => {
+      mockAxiosInstance.request.mockResolvedValue({
+        data: {
+          data: {
+            id: '1',
+            thread_id: 'thread/123',
+            user_id: 'user-456',
+            created_at: '2023-01-01T00:00:00Z',
+            modified_at: '2023-01-02T00:00:00Z',
+          },
+          status: 200,
+        },
+      });
+
+      const thread = await client.getThread('thread/123');
+
+      expect(mockAxiosInstance.request).toHaveBeenCalledWith({
+        method: 'GET',
+        url: '/api/threads/thread%2F123',
+      });
+      expect(thread.threadId).toBe('thread/123');
+      expect(thread.modifiedAt).toBe('2023-01-02T00:00:00Z');
+    });
+
+    it('should throw error if threadId is missing', async () => {
+      await expect(client.getThread('')).rejects.toThrow('threadId is required');
+    });
+  });
+
+  describe('listThreads', () => {
+    const threadData = (threadId: string) => ({
+      id: threadId,
+      thread_id: threadId,
+      user_id: 'user-456',
+      created_at: '2023-01-01T00:00:00Z',
+      modified_at: '2023-01-01T00:00:00Z',
+    });
+
+    it('should pass filters as query parameters', async () => {
+      mockAxiosInstance.request.mockResolvedValue({
+        data: { data: [threadData('thread-1')], next_cursor: null, status: 200 },
+      });
+
+      const page = await client.listThreads({
+        userId: 'user-456',
+        createdAfter: new Date('2023-01-01T00:00:00Z'),
+        modifiedBefore: '2023-02-01T00:00:00Z',
+        limit: 10,
+      });
+
+      expect(mockAxiosInstance.request).toHaveBeenCalledWith({
+        method: 'GET',
+        url: '/api/threads',
+        params: {
+          user_id: 'user-456',
+          created_after: '2023-01-01T00:00:00.000Z',
+          modified_before: '2023-02-01T00:00:00.000Z',
+          limit: 10,
+        },
+      });
+      expect(page.data.map((thread) => thread.threadId)).toEqual(['thread-1']);
+      expect(page.hasNextPage()).toBe(false);
+      expect(await page.getNextPage()).toBeNull();
+    });
+
+    it('should iterate across pages', async () => {
+      mockAxiosInstance.request
+        .mockResolvedValueOnce({
+          data: { data: [threadData('thread-1'), threadData('thread-2')], next_cursor: 'cursor-2', status: 200 },
+        })
+        .mockResolvedValueOnce({
+          data: { data: [threadData('thread-3')], next_cursor: null, status: 200 },
+        });
+
+      const threadIds: string[] = [];
+      for await (const thread of await client.listThreads({ userId: 'user-456' })) {
+        threadIds.push(thread.threadId);
+      }
+
+      expect(threadIds).toEqual(['thread-1', 'thread-2', 'thread-3']);
+      expect(mockAxiosInstance.request).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          params: { user_id: 'user-456', cursor: 'cursor-2' },
+        })
+      );
+    });
+
+    it('should validate filters', async () => {
+      await expect(client.listThreads({ createdAfter: 'yesterday' }))
+        .rejects.toThrow('createdAfter must be a valid date');
+      await expect(client.listThreads({ limit: 0 }))
+        .rejects.toThrow('limit must be a positive integer');
+    });
+  });
+
+  describe('conversation', () => {
+    const messageData = (messageId: string, createdAt: string) => ({
+      id: messageId,
+      thread_id: 'thread-123',
+      message: `message ${messageId}`,
+      message_id: messageId,
+      created_at: createdAt,
+    });
+
+    const runData = (runId: string, createdAt: string) => ({
+      run_id: runId,
+      thread_id: 'thread-123',
+      response: `response ${runId}`,
+      created_at: createdAt,
+    });
+
+    const respondTo = (responses: Record<string, any[]>) => {
+      mockAxiosInstance.request.mockImplementation(async ({ url, params }) => {
+        const key = `${url}?${params?.cursor || ''}`;
+        const next = responses[key].shift();
+        return { data: { status: 200, ...next } };
+      });
+    };
+
+    it('should list the messages in a thread', async () => {
+      respondTo({
+        '/api/threads/thread-123/messages?': [
+          { data: [messageData('msg-1', '2023-01-01T00:00:00Z')], next_cursor: null },
+        ],
+      });
+
+      const page = await client.listMessages('thread-123', { limit: 50 });
+
+      expect(mockAxiosInstance.request).toHaveBeenCalledWith({
+        method: 'GET',
+        url: '/api/threads/thread-123/messages',
+        params: { limit: 50 },
+      });
+      expect(page.data[0]).toBeInstanceOf(Message);
+      expect(page.data[0].messageId).toBe('msg-1');
+    });
+
+    it('should interleave messages and runs by creation time', async () => {
+      respondTo({
+        '/api/threads/thread-123/messages?': [
+          {
+            data: [messageData('msg-1', '2023-01-01T00:00:00Z'), messageData('msg-2', '2023-01-01T00:02:00Z')],
+            next_cursor: 'messages-2',
+          },
+        ],
+        '/api/threads/thread-123/messages?messages-2': [
+          { data: [messageData('msg-3', '2023-01-01T00:04:00Z')], next_cursor: null },
+        ],
+        '/api/threads/thread-123/runs?': [
+          {
+            data: [runData('run-1', '2023-01-01T00:01:00Z'), runData('run-2', '2023-01-01T00:03:00Z')],
+            next_cursor: null,
+          },
+        ],
+      });
+
+      const entries = [];
+      for await (const entry of client.getConversation('thread-123')) {
+        entries.push(entry instanceof Run ? entry.runId : (entry as Message).messageId);
+      }
+
+      expect(entries).toEqual(['msg-1', 'run-1', 'msg-2', 'run-2', 'msg-3']);
+    });
+
+    it('should load messages and runs through thread helpers', async () => {
+      respondTo({
+        '/api/threads?': [
+          {
+            data: [{
+              id: '1',
+              thread_id: 'thread-123',
+              created_at: '2023-01-01T00:00:00Z',
+              modified_at: '2023-01-01T00:00:00Z',
+            }],
+            next_cursor: null,
+          },
+        ],
+        '/api/threads/thread-123/runs?': [
+          { data: [runData('run-1', '2023-01-01T00:01:00Z')], next_cursor: null },
+        ],
+      });
+
+      const [thread] = (await client.listThreads()).data;
+      const runs = await thread.runs();
+
+      expect(runs.data.map((run) => run.runId)).toEqual(['run-1']);
+    });
+  });
+
+  describe('update and delete', () => {
+    const httpError = (status: number, error: string) => ({
+      isAxiosError: true,
+      message: `Request failed with status code ${status}`,
+      response: { status, data: { error }, headers: {} },
+    });
+    const notFound = () => httpError(404, 'Not found');
+
+    it('should update a thread', async () => {
+      mockAxiosInstance.request.mockResolvedValue({
+        data: {
+          data: {
+            id: '1',
+            thread_id: 'thread-123',
+            user_id: 'user-789',
+            metadata: { plan: 'pro' },
+            created_at: '2023-01-01T00:00:00Z',
+            modified_at: '2023-01-02T00:00:00Z',
+          },
+          status: 200,
+        },
+      });
+
+      const thread = await client.updateThread('thread-123', {
+        userId: 'user-789',
+        metadata: { plan: 'pro' },
+      });
+
+      expect(mockAxiosInstance.request).toHaveBeenCalledWith({
+        method: 'PUT',
+        url: '/api/threads/thread-123',
+        data: { user_id: 'user-789', metadata: { plan: 'pro' } },
+        headers: { 'Idempotency-Key': expect.any(String) },
+      });
+      expect(thread.userId).toBe('user-789');
+      expect(thread.metadata).toEqual({ plan: 'pro' });
+    });
+
+    it('should require at least one field to update', async () => {
+      await expect(client.updateThread('thread-123', {}))
+        .rejects.toThrow('userId or metadata is required');
+    });
+
+    it('should treat deleting a missing resource as a no-op', async () => {
+      mockAxiosInstance.request
+        .mockResolvedValueOnce({ data: { status: 200 } })
+        .mockRejectedValueOnce(notFound());
+
+      await expect(client.deleteMessage('msg-1')).resolves.toBe(true);
+      await expect(client.deleteMessage('msg-1')).resolves.toBe(false);
+      expect(mockAxiosInstance.request).toHaveBeenCalledWith({
+        method: 'DELETE',
+        url: '/api/messages/msg-1',
+        headers: { 'Idempotency-Key': expect.any(String) },
+      });
+    });
+
+    it('should delete every thread of a user and report progress', async () => {
+      mockAxiosInstance.request.mockImplementation(async ({ method, url }) => {
+        if (method === 'GET') {
+          return {
+            data: {
+              data: ['thread-1', 'thread-2', 'thread-3'].map((threadId) => ({
+                id: threadId,
+                thread_id: threadId,
+                user_id: 'user-456',
+                created_at: '2023-01-01T00:00:00Z',
+                modified_at: '2023-01-01T00:00:00Z',
+              })),
+              next_cursor: null,
+              status: 200,
+            },
+          };
+        }
+        if (url === '/api/threads/thread-2') {
+          throw notFound();
+        }
+        if (url === '/api/threads/thread-3') {
+          throw httpError(503, 'Service unavailable');
+        }
+        return { data: { status: 200 } };
+      });
+
+      const onProgress = jest.fn();
+      const noRetryClient = new SubtextClient({ apiKey: 'test-api-key', maxRetries: 0 });
+      const result = await noRetryClient.deleteUserData('user-456', { onProgress });
+
+      expect(result.threadIds).toEqual(['thread-1', 'thread-2', 'thread-3']);
+      expect(result.deleted).toBe(1);
+      expect(result.notFound).toBe(1);
+      expect(result.failures).toEqual([
+        { threadId: 'thread-3', error: expect.any(SubtextServerError) },
+      ]);
+      expect(result.failures[0].error).toMatchObject({ statusCode: 503, message: 'Service unavailable' });
+      expect(onProgress).toHaveBeenCalledTimes(3);
+      expect(onProgress).toHaveBeenLastCalledWith({
+        threadId: 'thread-3',
+        deleted: false,
+        completed: 3,
+        total: 3,
+      });
+    });
+  });
+
+  describe('idempotency', () => {
+    const messageData = {
+      id: '2',
+      thread_id: 'thread-123',
+      message: 'Hello, world!',
+      message_id: 'msg-456',
+      created_at: '2023-01-01T00:00:00Z',
+    };
+
+    const conflict = (data?: Record<string, any>, idempotencyKey?: string) => ({
+      isAxiosError: true,
+      message: 'Request failed with status code 409',
+      config: { url: '/api/messages' },
+      response: { status: 409, data: { error: 'Duplicate request', idempotency_key: idempotencyKey, data } },
+    });
+
+    it('should send a caller-supplied idempotency key', async () => {
+      mockAxiosInstance.request.mockResolvedValue({ data: { data: messageData, status: 201 } });
+
+      await client.message({
+        threadId: 'thread-123',
+        message: 'Hello, world!',
+        messageId: 'msg-456',
+        idempotencyKey: 'key-1',
+      });
+
+      expect(mockAxiosInstance.request).toHaveBeenCalledWith(expect.objectContaining({
+        headers: { 'Idempotency-Key': 'key-1' },
+      }));
+    });
+
+    it('should generate a different key for every call', async () => {
+      mockAxiosInstance.request.mockResolvedValue({ data: { data: messageData, status: 201 } });
+      const options = { threadId: 'thread-123', message: 'Hello, world!', messageId: 'msg-456' };
+
+      await client.message(options);
+      await client.message(options);
+
+      const [first, second] = mockAxiosInstance.request.mock.calls.map(
+        ([config]) => config.headers['Idempotency-Key']
+      );
+      expect(first).toMatch(/^[0-9a-f-]{36}$/);
+      expect(second).not.toBe(first);
+    });
+
+    it('should send the same key on every retry', async () => {
+      jest.useFakeTimers();
+      try {
+        const retryClient = new SubtextClient({ apiKey: 'test-api-key', retry: { baseDelay: 10 } });
+        mockAxiosInstance.request
+          .mockRejectedValueOnce({ message: 'socket hang up', code: 'ECONNRESET' })
+          .mockRejectedValueOnce({ message: 'Service unavailable', response: { status: 503, headers: {} } })
+          .mockResolvedValueOnce({ data: { data: messageData, status: 201 } });
+
+        const result = retryClient.message({ threadId: 'thread-123', message: 'Hello, world!', messageId: 'msg-456' });
+        await jest.runAllTimersAsync();
+        await result;
+
+        const keys = mockAxiosInstance.request.mock.calls.map(([config]) => config.headers['Idempotency-Key']);
+        expect(keys).toHaveLength(3);
+        expect(new Set(keys).size).toBe(1);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should resolve a replayed request to the original resource', async () => {
+      mockAxiosInstance.request.mockRejectedValue(conflict(messageData, 'key-1'));
+
+      const message = await client.message({
+        threadId: 'thread-123',
+        message: 'Hello, world!',
+        messageId: 'msg-456',
+        idempotencyKey: 'key-1',
+      });
+
+      expect(message).toBeInstanceOf(Message);
+      expect(message.messageId).toBe('msg-456');
+    });
+
+    it('should throw SubtextConflictError for conflicts of another idempotency key', async () => {
+      mockAxiosInstance.request.mockRejectedValue(conflict(messageData, 'key-2'));
+
+      await expect(client.message({
+        threadId: 'thread-123',
+        message: 'Hello, world!',
+        messageId: 'msg-456',
+        idempotencyKey: 'key-1',
+      })).rejects.toThrow(SubtextConflictError);
+    });
+
+    it('should throw SubtextConflictError for other conflicts', async () => {
+      mockAxiosInstance.request.mockRejectedValue(conflict());
+
+      await expect(client.message({
+        threadId: 'thread-123',
+        message: 'Hello, world!',
+        messageId: 'msg-456',
+      })).rejects.toThrow(SubtextConflictError);
+    });
+  });
+
+  describe('redaction', () => {
+    it('should redact messages and runs before sending them', async () => {
+      const onRedact = jest.fn();
+      const redactingClient = new SubtextClient({
+        apiKey: 'test-api-key',
+        redact: { strategy: 'token', onRedact },
+      });
+      mockAxiosInstance.request.mockImplementation(async ({ data }) => ({
+        data: { data: { ...data, created_at: '2023-01-01T00:00:00Z' }, status: 201 },
+      }));
+
+      const message = await redactingClient.message({
+        threadId: 'thread-123',
+        message: 'I am jane@example.com',
+        messageId: 'msg-456',
+      });
+      await redactingClient.run({
+        threadId: 'thread-123',
+        runId: 'run-789',
+        response: 'Thanks, I will call 415-555-2671.',
+      });
+
+      expect(message.message).toBe('I am <EMAIL>');
+      expect(mockAxiosInstance.request).toHaveBeenLastCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ response: 'Thanks, I will call <PHONE>.' }),
+      }));
+      expect(onRedact.mock.calls).toEqual([
+        [{ field: 'message', threadId: 'thread-123', counts: { email: 1 }, total: 1 }],
+        [{ field: 'response', threadId: 'thread-123', counts: { phone: 1 }, total: 1 }],
+      ]);
+    });
+  });
+
+  describe('sampling', () => {
+    it('should return NotSampled without sending a request', async () => {
+      const samplingClient = new SubtextClient({ apiKey: 'test-api-key', sampling: { rate: 0 } });
+
+      const run = await samplingClient.run({ threadId: 'thread-123', runId: 'run-789', response: 'Hi' });
+
+      expect(run).toBeInstanceOf(NotSampled);
+      expect(run.sampled).toBe(false);
+      expect(run.toDict()).toEqual({ sampled: false, kind: 'run', thread_id: 'thread-123', reason: 'rate' });
+      expect(mockAxiosInstance.request).not.toHaveBeenCalled();
+    });
+
+    it('should type results as possibly NotSampled when the options may contain sampling', async () => {
+      const options: SubtextClientOptions = { apiKey: 'test-api-key', sampling: { rate: 0 } };
+      const samplingClient = new SubtextClient(options);
+
+      const message = await samplingClient.message({ threadId: 'thread-123', message: 'Hi', messageId: 'msg-1' });
+
+      // @ts-expect-error A client created from SubtextClientOptions may return NotSampled
+      expect(message.messageId).toBeUndefined();
+      expect(message.sampled).toBe(false);
+    });
+
+    it('should filter every call of a thread by its user ID', async () => {
+      const samplingClient = new SubtextClient({
+        apiKey: 'test-api-key',
+        sampling: { filter: ({ userId }) => userId !== 'internal-tester' },
+      });
+
+      const thread = await samplingClient.thread({ threadId: 'thread-123', userId: 'internal-tester' });
+      const message = await samplingClient.message({
+        threadId: 'thread-123',
+        message: 'Hello',
+        messageId: 'msg-456',
+      });
+
+      expect(thread.sampled).toBe(false);
+      expect(message).toMatchObject({ sampled: false, kind: 'message', reason: 'filter' });
+      expect(mockAxiosInstance.request).not.toHaveBeenCalled();
+    });
+
+    it('should filter messages and runs by the user ID they are given', async () => {
+      const samplingClient = new SubtextClient({
+        apiKey: 'test-api-key',
+        sampling: { filter: ({ userId }) => userId !== 'internal-tester' },
+      });
+
+      // The thread was created elsewhere, so the client doesn't know its user
+      const session = samplingClient.session({ threadId: 'thread-123', userId: 'internal-tester', createThread: false });
+      const message = await session.userMessage('Hello');
+      const run = await samplingClient.run({
+        threadId: 'thread-123',
+        runId: 'run-789',
+        response: 'Hi',
+        userId: 'internal-tester',
+      });
+
+      expect(message).toMatchObject({ sampled: false, reason: 'filter' });
+      expect(run).toMatchObject({ sampled: false, reason: 'filter' });
+      expect(mockAxiosInstance.request).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('should throw SubtextRateLimitError with the rate limit headers', async () => {
+      const noRetryClient = new SubtextClient({ apiKey: 'test-api-key', maxRetries: 0 });
+      mockAxiosInstance.request.mockRejectedValue({
+        message: 'Request failed with status code 429',
+        response: {
+          status: 429,
+          headers: {
+            'retry-after': '30',
+            'x-ratelimit-limit': '100',
+            'x-ratelimit-remaining': '0',
+            'x-ratelimit-reset': '1704067230',
+          },
+          data: { error: 'Too many requests' },
+        },
+      });
+
+      const error = await noRetryClient.getThread('thread-123').catch((caught) => caught);
+
+      expect(error).toBeInstanceOf(SubtextRateLimitError);
+      expect(error.statusCode).toBe(429);
+      expect(error.message).toBe('Too many requests');
+      expect(error.retryAfter).toBe(30000);
+      expect(error.limit).toBe(100);
+      expect(error.remaining).toBe(0);
+      expect(error.reset).toBe(1704067230);
+    });
+
+    it('should throttle requests with the rate limiter', async () => {
+      const limitedClient = new SubtextClient({ apiKey: 'test-api-key', rateLimit: { maxConcurrency: 1 } });
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockAxiosInstance.request.mockImplementation(async () => {
+        inFlight += 1;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setImmediate(resolve));
+        inFlight -= 1;
+        return { data: { data: [], next_cursor: null, status: 200 } };
+      });
+
+      await Promise.all([
+        limitedClient.listThreads(),
+        limitedClient.listThreads(),
+        limitedClient.listThreads(),
+      ]);
+
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(3);
+      expect(maxInFlight).toBe(1);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('should stop sending requests once the circuit opens', async () => {
+      const breakerClient = new SubtextClient({
+        apiKey: 'test-api-key',
+        maxRetries: 0,
+        circuitBreaker: { failureThreshold: 2 },
+      });
+      mockAxiosInstance.request.mockRejectedValue({
+        message: 'Service unavailable',
+        response: { status: 503, headers: {}, data: { error: 'Service unavailable' } },
+      });
+
+      await expect(breakerClient.getThread('thread-123')).rejects.toThrow(SubtextServerError);
+      await expect(breakerClient.getThread('thread-123')).rejects.toThrow(SubtextServerError);
+      await expect(breakerClient.getThread('thread-123')).rejects.toThrow(SubtextCircuitOpenError);
+
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(2);
+      expect(breakerClient.circuitBreaker!.state).toBe('open');
+    });
+
+    it('should not be configured by default', () => {
+      expect(client.circuitBreaker).toBeUndefined();
+    });
+  });
+
+  describe('middleware', () => {
+    const threadData = {
+      id: '1',
+      thread_id: 'thread-123',
+      created_at: '2023-01-01T00:00:00Z',
+      modified_at: '2023-01-01T00:00:00Z',
+    };
+
+    it('should let hooks modify the payload and headers', async () => {
+      mockAxiosInstance.request.mockResolvedValue({ data: { data: threadData, status: 201 }, status: 201 });
+      client.use({
+        beforeRequest: (context) => {
+          context.payload = { ...context.payload, user_id: 'user-from-hook' };
+          context.headers['X-Source'] = 'tests';
+        },
+      });
+
+      await client.thread({ threadId: 'thread-123' });
+
+      expect(mockAxiosInstance.request).toHaveBeenCalledWith({
+        method: 'POST',
+        url: '/api/threads',
+        data: { thread_id: 'thread-123', user_id: 'user-from-hook' },
+        headers: { 'Idempotency-Key': expect.any(String), 'X-Source': 'tests' },
+      });
+    });
+
+    it('should pass the attempt, timing and response to the hooks', async () => {
+      const retryClient = new SubtextClient({ apiKey: 'test-api-key', retry: { baseDelay: 0 } });
+      mockAxiosInstance.request
+        .mockRejectedValueOnce({ message: 'Service unavailable', response: { status: 503, headers: {}, data: {} } })
+        .mockResolvedValueOnce({ data: { data: threadData, status: 200 }, status: 200 });
+      const before = jest.fn();
+      const after = jest.fn();
+      const onError = jest.fn();
+      retryClient.use({ beforeRequest: before, afterResponse: after, onError });
+
+      await retryClient.getThread('thread-123');
+
+      expect(before.mock.calls.map(([context]) => context.attempt)).toEqual([1, 2]);
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({
+        endpoint: '/api/threads/thread-123',
+        attempt: 1,
+        error: expect.any(SubtextServerError),
+        durationMs: expect.any(Number),
+      }));
+      expect(after).toHaveBeenCalledWith(expect.objectContaining({
+        method: 'GET',
+        attempt: 2,
+        status: 200,
+        response: { data: threadData, status: 200 },
+        startedAt: expect.any(Number),
+        durationMs: expect.any(Number),
+      }));
+    });
+
+    it('should short-circuit a request from beforeRequest', async () => {
+      client.use({
+        beforeRequest: () => ({ response: { data: threadData, status: 200 } }),
+      });
+
+      const thread = await client.getThread('thread-123');
+
+      expect(thread.threadId).toBe('thread-123');
+      expect(mockAxiosInstance.request).not.toHaveBeenCalled();
+    });
+
+    it('should recover from an error in onError', async () => {
+      mockAxiosInstance.request.mockRejectedValue({
+        message: 'Not found',
+        response: { status: 404, headers: {}, data: { error: 'Thread not found' } },
+      });
+      client.use({
+        onError: ({ error }) => (error instanceof SubtextNotFoundError
+          ? { response: { data: threadData, status: 200 } }
+          : undefined),
+      });
+
+      await expect(client.getThread('thread-123')).resolves.toBeDefined();
+    });
+
+    it('should pass errors thrown by hooks through unchanged', async () => {
+      const hookError = new Error('Blocked by policy');
+      client.use({
+        beforeRequest: () => {
+          throw hookError;
+        },
+      });
+
+      await expect(client.getThread('thread-123')).rejects.toBe(hookError);
+    });
+
+    it('should remove hooks and keep them across close()', async () => {
+      mockAxiosInstance.request.mockResolvedValue({ data: { data: threadData, status: 200 }, status: 200 });
+      const kept = jest.fn();
+      const removed = jest.fn();
+      client.use({ afterResponse: kept });
+      const remove = client.use({ afterResponse: removed });
+
+      remove();
+      client.close();
+      await client.getThread('thread-123');
+
+      expect(kept).toHaveBeenCalledTimes(1);
+      expect(removed).not.toHaveBeenCalled();
+    });
   });
 
   describe('close', () => {
@@ -209,5 +974,45 @@ describe('SubtextClient', () => {
       expect(mockAxiosInstance.interceptors.request.clear).toHaveBeenCalled();
       expect(mockAxiosInstance.interceptors.response.clear).toHaveBeenCalled();
     });
+
+    it('should reject calls still waiting in the batch queue', async () => {
+      const batchClient = new SubtextClient({ apiKey: 'test-api-key', batch: {} });
+      const thread = batchClient.thread({ threadId: 'thread-123' });
+
+      batchClient.close();
+
+      await expect(thread).rejects.toThrow('Client was closed; request not sent');
+      expect(mockAxiosInstance.request).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('SubtextClient without Node.js built-ins', () => {
+  it('should load and record through a fetch transport', async () => {
+    const threadData = { id: '1', thread_id: 'thread-123', created_at: '2024-01-01T00:00:00Z', modified_at: '2024-01-01T00:00:00Z' };
+    const fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 201,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      text: async () => JSON.stringify({ data: threadData, status: 201 }),
+    });
+
+    await jest.isolateModulesAsync(async () => {
+      for (const name of ['axios', 'fs', 'path', 'crypto', 'http']) {
+        jest.doMock(name, () => {
+          throw new Error(`${name} is not available`);
+        });
+      }
+      const { SubtextClient: EdgeClient, FetchTransport } = require('../index') as typeof import('../index');
+
+      const edgeClient = new EdgeClient({
+        apiKey: 'test-api-key',
+        transport: (config) => new FetchTransport(config, fetch),
+      });
+      const thread = await edgeClient.thread({ threadId: 'thread-123' });
+
+      expect(thread.threadId).toBe('thread-123');
+      expect(fetch.mock.calls[0][1].headers['Idempotency-Key']).toMatch(/^[0-9a-f-]{36}$/);
+    });
   });
 });
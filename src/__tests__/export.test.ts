@@ -0,0 +1,99 @@
+/**
+ * Tests for exportThreads
+ */
+
+import { exportThreads, ExportOptions } from '../export';
+import { detectFormat, importConversations, parseConversations } from '../import';
+import { Message, Run, Thread } from '../models';
+import { createTestClient, InMemorySubtextClient } from '../testing';
+
+describe('exportThreads', () => {
+  let client: InMemorySubtextClient;
+
+  beforeEach(async () => {
+    client = createTestClient();
+    await client.thread({ threadId: 'thread-1', userId: 'user-1' });
+    await client.message({ threadId: 'thread-1', message: 'Hello, "world"', messageId: 'msg-1' });
+    await client.run({
+      threadId: 'thread-1',
+      runId: 'run-1',
+      response: 'Hi!\nHow can I help?',
+      messageId: 'msg-1',
+      model: 'gpt-4o',
+      totalTokens: 12,
+    });
+    await client.thread({ threadId: 'thread-2', userId: 'user-2' });
+  });
+
+  const exportText = async (options: Omit<ExportOptions, 'write'>) => {
+    let text = '';
+    const summary = await exportThreads(client, { ...options, write: (chunk) => { text += chunk; } });
+    return { text, summary };
+  };
+
+  it('should export JSONL in the toDict() shapes', async () => {
+    const { text, summary } = await exportText({});
+    const [first, second] = text.trim().split('\n').map((line) => JSON.parse(line));
+
+    expect(summary).toEqual({ threads: 2, messages: 1, runs: 1, missingThreadIds: [] });
+    expect(new Thread(first.thread).toDict()).toEqual(client.recordedThreads()[0].toDict());
+    expect(new Message(first.messages[0]).toDict()).toEqual(client.recordedMessages()[0].toDict());
+    expect(new Run(first.runs[0]).model).toBe('gpt-4o');
+    expect(second).toMatchObject({ thread: { thread_id: 'thread-2' }, messages: [], runs: [] });
+  });
+
+  it('should export JSONL that subtext import can read back', async () => {
+    const { text } = await exportText({ threadIds: ['thread-1'] });
+    const { conversations, invalid } = parseConversations(text, detectFormat('threads.jsonl', text), 'threads.jsonl');
+    const target = createTestClient();
+
+    const summary = await importConversations(target, conversations);
+
+    expect(invalid).toEqual([]);
+    expect(summary).toMatchObject({ imported: 1, messages: 1, runs: 1 });
+    expect(target.recordedThreads().map((thread) => [thread.threadId, thread.userId])).toEqual([['thread-1', 'user-1']]);
+    expect(target.recordedRuns('thread-1')[0]).toMatchObject({
+      response: 'Hi!\nHow can I help?',
+      model: 'gpt-4o',
+      messageId: target.recordedMessages('thread-1')[0].messageId,
+    });
+  });
+
+  it('should export CSV that subtext import can read back', async () => {
+    const { text } = await exportText({ format: 'csv' });
+    const { conversations, invalid } = parseConversations(text, 'csv', 'export.csv');
+
+    expect(text.split('\n')[0]).toMatch(/^thread_id,user_id,role,id,message_id,content,timestamp,model/);
+    expect(invalid).toEqual([]);
+    expect(conversations).toEqual([
+      expect.objectContaining({
+        threadId: 'thread-1',
+        userId: 'user-1',
+        turns: [
+          expect.objectContaining({ role: 'user', content: 'Hello, "world"' }),
+          expect.objectContaining({ role: 'assistant', content: 'Hi!\nHow can I help?', model: 'gpt-4o' }),
+        ],
+      }),
+    ]);
+  });
+
+  it('should export Markdown transcripts', async () => {
+    const { text } = await exportText({ format: 'markdown', threadIds: ['thread-1'] });
+
+    expect(text).toContain('## Thread thread-1');
+    expect(text).toContain('- User: user-1');
+    expect(text).toMatch(/\*\*User\*\* · .+\n\n> Hello, "world"/);
+    expect(text).toMatch(/\*\*Assistant\*\* · .+ \(gpt-4o, 12 tokens\)\n\n> Hi!\n> How can I help\?/);
+  });
+
+  it('should filter by user, date and thread IDs', async () => {
+    const byUser = await exportText({ userId: 'user-2' });
+    const byIds = await exportText({ threadIds: ['thread-2', 'missing'], userId: 'user-1' });
+    const future = await exportText({ createdAfter: new Date(Date.now() + 60000) });
+
+    expect(byUser.summary.threads).toBe(1);
+    expect(byUser.text).toContain('"thread_id":"thread-2"');
+    expect(byIds.summary).toEqual({ threads: 0, messages: 0, runs: 0, missingThreadIds: ['missing'] });
+    expect(future.summary.threads).toBe(0);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Tests for the Express, Fastify and Koa middleware
+ */
+
+import { EventEmitter } from 'events';
+import { SubtextServerError } from '../exceptions';
+import { subtextExpress, SubtextExpressOptions } from '../integrations/express';
+import { FastifyInstanceLike, subtextFastify } from '../integrations/fastify';
+import { KoaContextLike, subtextKoa } from '../integrations/koa';
+import { Session } from '../session';
+import { createTestClient, InMemorySubtextClient } from '../testing';
+
+/**
+ * Wait for the next request to be recorded, or for recording to fail.
+ */
+const nextRecording = <T extends { onRecorded?: unknown; onError?: unknown }>(options: T) =>
+  new Promise<Session>((resolve, reject) => {
+    Object.assign(options, { onRecorded: resolve, onError: reject });
+  });
+
+const createExpressRequest = (body: unknown, headers: Record<string, string> = {}) => ({
+  headers,
+  body,
+  subtext: undefined as Session | undefined,
+});
+
+class FakeExpressResponse extends EventEmitter {
+  statusCode = 200;
+
+  send(_body?: unknown) {
+    setImmediate(() => this.emit('finish'));
+    return this;
+  }
+
+  json(body: unknown) {
+    return this.send(JSON.stringify(body));
+  }
+}
+
+describe('subtextExpress', () => {
+  let client: InMemorySubtextClient;
+
+  beforeEach(() => {
+    client = createTestClient();
+  });
+
+  it('should record the request and response after the response was sent', async () => {
+    const options: SubtextExpressOptions = {};
+    const recorded = nextRecording(options);
+    const middleware = subtextExpress(client, options);
+    const req = createExpressRequest({ message: 'Hello' }, { 'x-thread-id': 'thread-123', 'x-user-id': 'user-456' });
+    const res = new FakeExpressResponse();
+
+    middleware(req, res, () => {
+      expect(req.subtext?.threadId).toBe('thread-123');
+      res.json({ response: 'Hi there!' });
+    });
+    expect(client.requests).toEqual([]);
+
+    const session = await recorded;
+    expect(session).toBe(req.subtext);
+    expect(client.recordedThreads()[0]).toMatchObject({ threadId: 'thread-123', userId: 'user-456' });
+    expect(client.recordedMessages('thread-123').map((message) => message.message)).toEqual(['Hello']);
+    const [run] = client.recordedRuns('thread-123');
+    expect(run.response).toBe('Hi there!');
+    expect(run.messageId).toBe(client.recordedMessages()[0].messageId);
+    expect(run.latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should use custom extractors and only create each thread once', async () => {
+    const options: SubtextExpressOptions = {
+      threadId: (req) => req.body.conversation,
+      userMessage: (req) => req.body.prompt,
+      assistantResponse: (body: any) => body.choices[0].text,
+      runMetadata: () => ({ model: 'gpt-4o' }),
+    };
+    const middleware = subtextExpress(client, options);
+
+    for (const prompt of ['First', 'Second']) {
+      const recorded = nextRecording(options);
+      const res = new FakeExpressResponse();
+      middleware(createExpressRequest({ conversation: 'chat-1', prompt }), res, () => {
+        res.json({ choices: [{ text: `Answer to ${prompt}` }] });
+      });
+      await recorded;
+    }
+
+    expect(client.requests.filter(({ endpoint }) => endpoint === '/api/threads')).toHaveLength(1);
+    expect(client.recordedRuns('chat-1').map((run) => [run.response, run.model])).toEqual([
+      ['Answer to First', 'gpt-4o'],
+      ['Answer to Second', 'gpt-4o'],
+    ]);
+  });
+
+  it('should skip error responses', async () => {
+    const options: SubtextExpressOptions = {};
+    const middleware = subtextExpress(client, options);
+    const res = new FakeExpressResponse();
+    const finished = new Promise((resolve) => res.once('finish', resolve));
+
+    middleware(createExpressRequest({ message: 'Hello' }), res, () => {
+      res.statusCode = 500;
+      res.json({ response: 'Something went wrong' });
+    });
+    await finished;
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(client.requests).toEqual([]);
+  });
+
+  it('should report recording failures without affecting the response', async () => {
+    client.injectFault({ method: 'POST', endpoint: '/api/messages', status: 500 });
+    const options: SubtextExpressOptions = {};
+    const recorded = nextRecording(options);
+    const middleware = subtextExpress(client, options);
+    const res = new FakeExpressResponse();
+    const send = jest.spyOn(res, 'send');
+
+    middleware(createExpressRequest({ message: 'Hello' }), res, () => {
+      res.json({ response: 'Hi there!' });
+    });
+
+    await expect(recorded).rejects.toThrow(SubtextServerError);
+    expect(send).toHaveBeenCalledWith(JSON.stringify({ response: 'Hi there!' }));
+  });
+});
+
+describe('subtextFastify', () => {
+  const createInstance = () => {
+    const hooks: Record<string, (...args: any[]) => Promise<unknown>> = {};
+    const instance: FastifyInstanceLike & { decorators: string[] } = {
+      decorators: [],
+      decorateRequest: (name) => instance.decorators.push(name),
+      addHook: (name, hook) => {
+        hooks[name] = hook;
+      },
+    };
+    return { instance, hooks };
+  };
+
+  it('should record requests through its hooks', async () => {
+    const client = createTestClient();
+    const options = {};
+    const recorded = nextRecording(options);
+    const plugin = subtextFastify(client, options);
+    const { instance, hooks } = createInstance();
+
+    await plugin(instance);
+    expect(instance.decorators).toEqual(['subtext']);
+    expect((plugin as any)[Symbol.for('skip-override')]).toBe(true);
+
+    const request = { headers: { 'x-thread-id': 'thread-123' }, body: { message: 'Hello' }, subtext: null };
+    const reply = { statusCode: 200 };
+    await hooks.preHandler(request, reply);
+    expect(request.subtext).toBeInstanceOf(Session);
+    const payload = await hooks.onSend(request, reply, '{"response":"Hi there!"}');
+    expect(payload).toBe('{"response":"Hi there!"}');
+    await hooks.onResponse(request, reply);
+
+    expect(await recorded).toBe(request.subtext);
+    expect(client.recordedMessages('thread-123').map((message) => message.message)).toEqual(['Hello']);
+    expect(client.recordedRuns('thread-123').map((run) => run.response)).toEqual(['Hi there!']);
+  });
+});
+
+describe('subtextKoa', () => {
+  const createContext = (body: unknown): KoaContextLike & { res: EventEmitter } => ({
+    headers: { 'x-thread-id': 'thread-123' },
+    request: { body },
+    status: 404,
+    body: undefined,
+    state: {},
+    res: new EventEmitter(),
+  });
+
+  it('should record the request once the response finished', async () => {
+    const client = createTestClient();
+    const options = {};
+    const recorded = nextRecording(options);
+    const middleware = subtextKoa(client, options);
+    const ctx = createContext({ message: 'Hello' });
+
+    await middleware(ctx, async () => {
+      expect(ctx.state.subtext).toBeInstanceOf(Session);
+      ctx.status = 200;
+      ctx.body = 'Hi there!';
+    });
+    expect(client.requests).toEqual([]);
+    ctx.res.emit('finish');
+
+    expect(await recorded).toBe(ctx.state.subtext);
+    expect(client.recordedMessages('thread-123').map((message) => message.message)).toEqual(['Hello']);
+    expect(client.recordedRuns('thread-123').map((run) => run.response)).toEqual(['Hi there!']);
+  });
+});
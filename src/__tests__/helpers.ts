@@ -0,0 +1,34 @@
+/**
+ * Shared helpers for the tests
+ */
+
+import { Message, Run, Thread } from '../models';
+
+/**
+ * A stand-in for the `thread`, `message` and `run` methods of `SubtextClient`
+ * that resolves to the models the API would return. Prefer `createTestClient()`
+ * for new tests.
+ */
+export const createClientStub = () => ({
+  thread: jest.fn(async ({ threadId, userId }: { threadId: string; userId?: string }) => new Thread({
+    id: '1',
+    thread_id: threadId,
+    user_id: userId,
+    created_at: '2023-01-01T00:00:00Z',
+    modified_at: '2023-01-01T00:00:00Z',
+  })),
+  message: jest.fn(async (options: { threadId: string; message: string; messageId: string }) => new Message({
+    id: '2',
+    thread_id: options.threadId,
+    message: options.message,
+    message_id: options.messageId,
+    created_at: '2023-01-01T00:00:00Z',
+  })),
+  run: jest.fn(async (options: { threadId: string; runId: string; response: string; messageId?: string }) => new Run({
+    run_id: options.runId,
+    thread_id: options.threadId,
+    response: options.response,
+    message_id: options.messageId,
+    created_at: '2023-01-01T00:00:00Z',
+  })),
+});
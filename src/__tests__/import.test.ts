@@ -0,0 +1,170 @@
+/**
+ * Tests for bulk import
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseCsv } from '../csv';
+import { detectFormat, importConversations, parseConversations } from '../import';
+import { createTestClient } from '../testing';
+
+const openaiLines = [
+  JSON.stringify({
+    id: 'chat-1',
+    user: 'user-456',
+    messages: [
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'Hello' },
+      { role: 'assistant', content: [{ type: 'text', text: 'Hi there!' }] },
+    ],
+  }),
+  '{ not json',
+  JSON.stringify({ messages: [{ role: 'user', content: 'Anyone?' }] }),
+].join('\n');
+
+describe('parseCsv', () => {
+  it('should parse quoted fields with commas, quotes and line breaks', () => {
+    expect(parseCsv('a,b\r\n"x, y","say ""hi""\nbye"\n\n1,\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nbye'],
+      ['1', ''],
+    ]);
+  });
+});
+
+describe('parseConversations', () => {
+  it('should read OpenAI chat JSONL and report invalid lines', () => {
+    const { conversations, invalid } = parseConversations(openaiLines, 'openai', 'chats.jsonl');
+
+    expect(conversations).toHaveLength(2);
+    expect(conversations[0]).toMatchObject({ threadId: 'chat-1', userId: 'user-456', source: 'chats.jsonl:1' });
+    expect(conversations[0].turns[2].content).toBe('Hi there!');
+    expect(conversations[1].threadId).toMatch(/^import_[0-9a-f]{24}$/);
+    expect(parseConversations(openaiLines, 'openai', 'chats.jsonl').conversations[1].threadId)
+      .toBe(conversations[1].threadId);
+    expect(invalid).toEqual([{ source: 'chats.jsonl:2', reason: expect.stringContaining('Invalid JSON') }]);
+  });
+
+  it('should report OpenAI records with messages without a role', () => {
+    const { conversations, invalid } = parseConversations(
+      JSON.stringify({ messages: [{ role: 'user', content: 'Hello' }, { message: 'Hi there!' }] }),
+      'openai',
+      'chats.jsonl'
+    );
+
+    expect(conversations).toEqual([]);
+    expect(invalid).toEqual([{ source: 'chats.jsonl:1', reason: 'Every message needs a "role"' }]);
+  });
+
+  it('should group turn records by thread and order them by timestamp', () => {
+    const csv = [
+      'thread_id,role,content,timestamp,user_id',
+      't1,assistant,"Sure, here it is",2024-01-01T10:00:05Z,',
+      't2,user,Other thread,2024-01-01T09:00:00Z,user-2',
+      't1,user,Show me,2024-01-01T10:00:00Z,user-1',
+      't1,user,,nonsense,',
+    ].join('\n');
+
+    const { conversations, invalid } = parseConversations(csv, 'csv', 'turns.csv');
+
+    expect(conversations.map((conversation) => conversation.threadId)).toEqual(['t1', 't2']);
+    expect(conversations[0].userId).toBe('user-1');
+    expect(conversations[0].turns.map((turn) => turn.role)).toEqual(['user', 'assistant']);
+    expect(invalid).toEqual([{ source: 'turns.csv:5', reason: 'Invalid timestamp: nonsense' }]);
+  });
+
+  it('should detect the format', () => {
+    expect(detectFormat('turns.csv', '')).toBe('csv');
+    expect(detectFormat('chats.jsonl', openaiLines)).toBe('openai');
+    expect(detectFormat('turns.jsonl', '{"thread_id":"t1","role":"user","content":"Hi"}')).toBe('jsonl');
+    expect(detectFormat('threads.jsonl', '{"thread":{"thread_id":"t1"},"messages":[],"runs":[]}')).toBe('export');
+  });
+});
+
+describe('importConversations', () => {
+  const { conversations } = parseConversations(openaiLines, 'openai', 'chats.jsonl');
+
+  it('should record user turns as messages and assistant turns as linked runs', async () => {
+    const client = createTestClient();
+
+    const summary = await importConversations(client, conversations, { concurrency: 2 });
+
+    expect(summary).toMatchObject({ conversations: 2, imported: 2, failed: 0, messages: 2, runs: 1 });
+    expect(client.recordedThreads().map((thread) => thread.userId)).toContain('user-456');
+    expect(client.recordedRuns('chat-1')[0]).toMatchObject({
+      response: 'Hi there!',
+      messageId: 'chat-1-msg-1',
+    });
+  });
+
+  it('should count without sending anything in a dry run', async () => {
+    const client = createTestClient();
+
+    const summary = await importConversations(client, conversations, { dryRun: true });
+
+    expect(summary).toMatchObject({ imported: 2, messages: 2, runs: 1, dryRun: true });
+    expect(client.requests).toEqual([]);
+  });
+
+  it('should group failures by error type', async () => {
+    const client = createTestClient();
+    client.injectFault({ endpoint: '/api/runs', status: 503 });
+
+    const summary = await importConversations(client, conversations, { concurrency: 1 });
+
+    expect(summary.failed).toBe(1);
+    expect(summary.failures).toEqual({
+      SubtextServerError: {
+        count: 1,
+        examples: [{ threadId: 'chat-1', source: 'chats.jsonl:1', message: 'Injected fault' }],
+      },
+    });
+  });
+
+  it('should import anonymous conversations from files with the same name', async () => {
+    const client = createTestClient();
+    const first = parseConversations(JSON.stringify({ messages: [{ role: 'user', content: 'First' }] }), 'openai', 'chats.jsonl');
+    const second = parseConversations(JSON.stringify({ messages: [{ role: 'user', content: 'Second' }] }), 'openai', 'chats.jsonl');
+
+    const summary = await importConversations(client, [...first.conversations, ...second.conversations]);
+
+    expect(summary).toMatchObject({ imported: 2, failed: 0, messages: 2 });
+    expect(client.recordedMessages().map((message) => message.message).sort()).toEqual(['First', 'Second']);
+  });
+
+  it('should fail conversations whose IDs are taken by different content', async () => {
+    const client = createTestClient();
+    const turn = (content: string) => JSON.stringify({ thread_id: 't1', role: 'user', content });
+    await importConversations(client, parseConversations(turn('Hello'), 'jsonl', 'turns.jsonl').conversations);
+
+    const same = await importConversations(client, parseConversations(turn('Hello'), 'jsonl', 'turns.jsonl').conversations);
+    const different = await importConversations(client, parseConversations(turn('Goodbye'), 'jsonl', 'turns.jsonl').conversations);
+
+    expect(same).toMatchObject({ imported: 1, failed: 0 });
+    expect(different).toMatchObject({ imported: 0, failed: 1 });
+    expect(different.failures.SubtextConflictError.examples[0].message)
+      .toBe('Message t1-msg-0 already exists with different content');
+    expect(client.recordedMessages('t1').map((message) => message.message)).toEqual(['Hello']);
+  });
+
+  it('should resume from the checkpoint and tolerate partially imported threads', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'subtext-import-'));
+    const checkpointFile = path.join(directory, 'checkpoint');
+    const client = createTestClient();
+    client.injectFault({ endpoint: '/api/runs', status: 503 });
+
+    try {
+      const first = await importConversations(client, conversations, { concurrency: 1, checkpointFile });
+      const second = await importConversations(client, conversations, { concurrency: 1, checkpointFile });
+
+      expect(first).toMatchObject({ imported: 1, failed: 1 });
+      expect(second).toMatchObject({ imported: 1, skipped: 1, failed: 0 });
+      expect(client.recordedMessages()).toHaveLength(2);
+      expect(client.recordedRuns()).toHaveLength(1);
+      expect((await fs.readFile(checkpointFile, 'utf8')).trim().split('\n')).toHaveLength(2);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
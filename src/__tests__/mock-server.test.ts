@@ -0,0 +1,90 @@
+/**
+ * Tests for the mock Subtext API server, driven by the real SubtextClient
+ */
+
+import { SubtextClient } from '../client';
+import {
+  SubtextAuthenticationError,
+  SubtextNotFoundError,
+  SubtextServerError,
+  SubtextTimeoutError,
+} from '../exceptions';
+import { MockServer, startMockServer } from '../testing';
+
+describe('startMockServer', () => {
+  let server: MockServer;
+  let client: SubtextClient;
+
+  beforeAll(async () => {
+    server = await startMockServer({ apiKeys: ['test-api-key'] });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    client = new SubtextClient({
+      apiKey: 'test-api-key',
+      baseUrl: server.url,
+      retry: { baseDelay: 1 },
+    });
+  });
+
+  it('should record a conversation end to end', async () => {
+    await client.thread({ threadId: 'thread-123', userId: 'user-456' });
+    await client.message({ threadId: 'thread-123', message: 'Hello', messageId: 'msg-1' });
+    await client.run({ threadId: 'thread-123', runId: 'run-1', response: 'Hi!', model: 'gpt-4o' });
+
+    const thread = await client.getThread('thread-123');
+    const runs = await client.listRuns('thread-123');
+
+    expect(thread.userId).toBe('user-456');
+    expect(runs.data.map((run) => run.model)).toEqual(['gpt-4o']);
+    expect(server.backend.messageData).toHaveLength(1);
+    expect(server.requests[0].headers['idempotency-key']).toEqual(expect.any(String));
+  });
+
+  it('should reject unknown API keys', async () => {
+    const unauthorized = new SubtextClient({ apiKey: 'wrong-key', baseUrl: server.url });
+
+    await expect(unauthorized.getThread('thread-123')).rejects.toThrow(SubtextAuthenticationError);
+  });
+
+  it('should answer unknown threads with 404', async () => {
+    await expect(client.message({ threadId: 'missing', message: 'Hello', messageId: 'msg-1' }))
+      .rejects.toThrow(SubtextNotFoundError);
+  });
+
+  it('should retry scripted 429s after Retry-After', async () => {
+    server.addFailure({ endpoint: '/api/threads', status: 429, retryAfter: 0, times: 2 });
+
+    await client.thread({ threadId: 'thread-123' });
+
+    expect(server.requests).toHaveLength(3);
+    expect(server.backend.threadData).toHaveLength(1);
+  });
+
+  it('should script server errors and slow responses', async () => {
+    server.addFailure({ method: 'GET', status: 503, times: Infinity });
+    await expect(client.getThread('thread-123')).rejects.toThrow(SubtextServerError);
+    server.clearFailures();
+
+    server.addFailure({ delay: 200 });
+    const impatient = new SubtextClient({ apiKey: 'test-api-key', baseUrl: server.url, timeout: 20, maxRetries: 0 });
+    await expect(impatient.listThreads()).rejects.toThrow(SubtextTimeoutError);
+  });
+
+  it('should accept failures over the control endpoint', async () => {
+    await fetch(`${server.url}/__mock/failures`, {
+      method: 'POST',
+      body: JSON.stringify([{ endpoint: '/api/runs', status: 500 }]),
+    });
+
+    await client.thread({ threadId: 'thread-123' });
+    const noRetries = new SubtextClient({ apiKey: 'test-api-key', baseUrl: server.url, maxRetries: 0 });
+    await expect(noRetries.run({ threadId: 'thread-123', runId: 'run-1', response: 'Hi!' }))
+      .rejects.toThrow(SubtextServerError);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Tests for wrapOpenAI
+ */
+
+import { SubtextClient } from '../client';
+import { wrapOpenAI } from '../integrations/openai';
+import { RecordedExchange } from '../integrations/recorder';
+import { SubtextServerError } from '../exceptions';
+import { createClientStub } from './helpers';
+
+const completion = {
+  id: 'chatcmpl-1',
+  model: 'gpt-4o-2024-08-06',
+  choices: [{ message: { role: 'assistant', content: 'Hi there!' }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 10, completion_tokens: 3, total_tokens: 13 },
+};
+
+async function* chunks() {
+  yield { model: 'gpt-4o', choices: [{ delta: { content: 'Hi' }, finish_reason: null }] };
+  yield { model: 'gpt-4o', choices: [{ delta: { content: ' there!' }, finish_reason: 'stop' }] };
+  yield { model: 'gpt-4o', choices: [], usage: { prompt_tokens: 10, completion_tokens: 3, total_tokens: 13 } };
+}
+
+class StubCompletions {
+  private response: unknown;
+
+  constructor(response: unknown) {
+    this.response = response;
+  }
+
+  create = jest.fn(async (params: { stream?: boolean; [key: string]: unknown }) => {
+    if (params.stream) {
+      return { [Symbol.asyncIterator]: chunks, controller: 'abort-controller' };
+    }
+    return this.response;
+  });
+}
+
+const createOpenAIStub = (response: unknown = completion) => ({
+  apiKey: 'sk-test',
+  chat: { completions: new StubCompletions(response) },
+});
+
+const params = {
+  model: 'gpt-4o',
+  temperature: 0.5,
+  messages: [
+    { role: 'system', content: 'You are helpful.' },
+    { role: 'user', content: 'Earlier question' },
+    { role: 'assistant', content: 'Earlier answer' },
+    { role: 'user', content: [{ type: 'text', text: 'Hello!' }] },
+  ],
+};
+
+describe('wrapOpenAI', () => {
+  let subtext: ReturnType<typeof createClientStub>;
+
+  beforeEach(() => {
+    subtext = createClientStub();
+  });
+
+  const wrap = (openai: ReturnType<typeof createOpenAIStub>, onError?: (error: Error) => void) => {
+    let recorded!: (exchange: RecordedExchange) => void;
+    const done = new Promise<RecordedExchange>((resolve) => {
+      recorded = resolve;
+    });
+    const client = wrapOpenAI(openai, subtext as unknown as SubtextClient, {
+      threadId: 'thread-123',
+      onRecorded: recorded,
+      onError,
+    });
+    return { client, done };
+  };
+
+  it('should record a completion as a message and a run', async () => {
+    const openai = createOpenAIStub();
+    const { client, done } = wrap(openai);
+
+    const result = await client.chat.completions.create(params);
+    await done;
+
+    expect(result).toBe(completion);
+    expect(openai.chat.completions.create).toHaveBeenCalledWith(params);
+    expect(subtext.thread).toHaveBeenCalledWith({ threadId: 'thread-123' });
+    expect(subtext.message).toHaveBeenCalledWith({
+      threadId: 'thread-123',
+      message: 'Hello!',
+      messageId: expect.stringMatching(/^msg_/),
+    });
+    expect(subtext.run).toHaveBeenCalledWith(expect.objectContaining({
+      threadId: 'thread-123',
+      runId: expect.stringMatching(/^run_/),
+      response: 'Hi there!',
+      model: 'gpt-4o-2024-08-06',
+      provider: 'openai',
+      promptTokens: 10,
+      completionTokens: 3,
+      totalTokens: 13,
+      temperature: 0.5,
+      finishReason: 'stop',
+    }));
+  });
+
+  it('should record streamed responses once the stream ends', async () => {
+    const openai = createOpenAIStub();
+    const { client, done } = wrap(openai);
+
+    const stream = await client.chat.completions.create({ ...params, stream: true });
+    const received: unknown[] = [];
+    for await (const chunk of stream as AsyncIterable<unknown>) {
+      received.push(chunk);
+    }
+    await done;
+
+    expect(received).toHaveLength(3);
+    expect((stream as { controller: string }).controller).toBe('abort-controller');
+    expect(subtext.run).toHaveBeenCalledWith(expect.objectContaining({
+      response: 'Hi there!',
+      model: 'gpt-4o',
+      totalTokens: 13,
+      finishReason: 'stop',
+      timeToFirstTokenMs: expect.any(Number),
+    }));
+    expect(subtext.run.mock.calls[0][0]).not.toHaveProperty('partial', true);
+  });
+
+  it('should flatten tool calls into the response', async () => {
+    const openai = createOpenAIStub({
+      model: 'gpt-4o',
+      choices: [{
+        message: {
+          content: null,
+          tool_calls: [{ function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }],
+        },
+        finish_reason: 'tool_calls',
+      }],
+    });
+    const { client, done } = wrap(openai);
+
+    await client.chat.completions.create(params);
+    await done;
+
+    expect(subtext.run).toHaveBeenCalledWith(expect.objectContaining({
+      response: '[tool_call: get_weather({"city":"Paris"})]',
+    }));
+  });
+
+  it('should record the user message once in a tool loop', async () => {
+    const toolCall = { id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } };
+    const openai = createOpenAIStub();
+    openai.chat.completions.create.mockResolvedValueOnce({
+      model: 'gpt-4o',
+      choices: [{ message: { content: null, tool_calls: [toolCall] }, finish_reason: 'tool_calls' }],
+    });
+    const recorded: RecordedExchange[] = [];
+    const client = wrapOpenAI(openai, subtext as unknown as SubtextClient, {
+      threadId: 'thread-123',
+      onRecorded: (exchange) => recorded.push(exchange),
+    });
+    const messages = [{ role: 'user', content: 'Weather in Paris?' }];
+
+    await client.chat.completions.create({ model: 'gpt-4o', messages });
+    await client.chat.completions.create({
+      model: 'gpt-4o',
+      messages: [
+        ...messages,
+        { role: 'assistant', content: null, tool_calls: [toolCall] },
+        { role: 'tool', tool_call_id: 'call_1', content: 'Sunny, 21°C' },
+      ],
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(subtext.message.mock.calls.map(([options]) => options.message)).toEqual(['Weather in Paris?']);
+    expect(recorded.map(({ message, run }) => [message?.message, run.response]).sort()).toEqual([
+      [undefined, 'Hi there!'],
+      ['Weather in Paris?', '[tool_call: get_weather({"city":"Paris"})]'],
+    ]);
+  });
+
+  it('should not break the wrapped call when recording fails', async () => {
+    subtext.run.mockRejectedValue(new SubtextServerError('Internal server error', 500));
+    const openai = createOpenAIStub();
+    const errors: Error[] = [];
+    const failed = new Promise<void>((resolve) => {
+      const { client } = wrap(openai, (error) => {
+        errors.push(error);
+        resolve();
+      });
+      client.chat.completions.create(params).then((result: unknown) => {
+        expect(result).toBe(completion);
+      });
+    });
+
+    await failed;
+    expect(errors[0]).toBeInstanceOf(SubtextServerError);
+  });
+
+  it('should keep other properties of the client', () => {
+    const { client } = wrap(createOpenAIStub());
+    expect(client.apiKey).toBe('sk-test');
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Tests for SubtextSpanExporter
+ */
+
+import { BasicTracerProvider, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { ReadableSpanLike, SpanExportResult, SubtextSpanExporter } from '../integrations/otel';
+import { createTestClient, InMemorySubtextClient } from '../testing';
+
+const createSpan = (attributes: Record<string, unknown>, overrides: Partial<ReadableSpanLike> = {}): ReadableSpanLike => ({
+  name: 'chat gpt-4o',
+  attributes,
+  events: [],
+  startTime: [1700000000, 0],
+  endTime: [1700000001, 250000000],
+  status: { code: 0 },
+  spanContext: () => ({ traceId: '0af7651916cd43dd8448eb211c80319c', spanId: 'b7ad6b7169203331' }),
+  ...overrides,
+});
+
+const exportSpans = (exporter: SubtextSpanExporter, spans: ReadableSpanLike[]) =>
+  new Promise<SpanExportResult>((resolve) => exporter.export(spans, resolve));
+
+describe('SubtextSpanExporter', () => {
+  let client: InMemorySubtextClient;
+
+  beforeEach(() => {
+    client = createTestClient();
+  });
+
+  it('should record GenAI spans as a message and a run', async () => {
+    const exporter = new SubtextSpanExporter(client);
+
+    const result = await exportSpans(exporter, [createSpan({
+      'gen_ai.conversation.id': 'conversation-123',
+      'gen_ai.system': 'openai',
+      'gen_ai.request.model': 'gpt-4o',
+      'gen_ai.response.model': 'gpt-4o-2024-08-06',
+      'gen_ai.request.temperature': 0.5,
+      'gen_ai.response.finish_reasons': ['stop'],
+      'gen_ai.usage.input_tokens': 10,
+      'gen_ai.usage.output_tokens': 3,
+      'gen_ai.prompt': JSON.stringify([
+        { role: 'system', content: 'You are helpful.' },
+        { role: 'user', content: 'Hello!' },
+      ]),
+      'gen_ai.completion': JSON.stringify([{ role: 'assistant', content: 'Hi there!' }]),
+    })]);
+
+    expect(result).toEqual({ code: 0 });
+    expect(client.recordedMessages('conversation-123').map((message) => message.message)).toEqual(['Hello!']);
+    expect(client.recordedRuns('conversation-123')[0]).toMatchObject({
+      response: 'Hi there!',
+      messageId: client.recordedMessages()[0].messageId,
+      model: 'gpt-4o-2024-08-06',
+      provider: 'openai',
+      promptTokens: 10,
+      completionTokens: 3,
+      totalTokens: 13,
+      latencyMs: 1250,
+      temperature: 0.5,
+      finishReason: 'stop',
+    });
+  });
+
+  it('should read indexed attributes and events', async () => {
+    const exporter = new SubtextSpanExporter(client, { threadIdAttribute: 'session.id' });
+
+    await exportSpans(exporter, [
+      createSpan({
+        'session.id': 'session-1',
+        'gen_ai.prompt.0.role': 'user',
+        'gen_ai.prompt.0.content': 'First question',
+        'gen_ai.completion.0.role': 'assistant',
+        'gen_ai.completion.0.content': 'First answer',
+      }),
+      createSpan({ 'session.id': 'session-1' }, {
+        events: [
+          { name: 'gen_ai.content.prompt', attributes: { 'gen_ai.prompt': 'Second question' } },
+          { name: 'gen_ai.content.completion', attributes: { 'gen_ai.completion': 'Second answer' } },
+        ],
+      }),
+    ]);
+
+    expect(client.recordedMessages('session-1').map((message) => message.message).sort())
+      .toEqual(['First question', 'Second question']);
+    expect(client.recordedRuns('session-1').map((run) => run.response).sort())
+      .toEqual(['First answer', 'Second answer']);
+  });
+
+  it('should ignore other spans and group spans without a thread ID by trace', async () => {
+    const exporter = new SubtextSpanExporter(client);
+
+    await exportSpans(exporter, [
+      createSpan({ 'http.request.method': 'GET' }),
+      createSpan({ 'gen_ai.completion': 'Hi there!' }, { status: { code: 2, message: 'Stream interrupted' } }),
+    ]);
+
+    expect(client.recordedThreads().map((thread) => thread.threadId))
+      .toEqual(['trace_0af7651916cd43dd8448eb211c80319c']);
+    expect(client.recordedRuns()[0]).toMatchObject({ response: 'Hi there!', error: 'Stream interrupted' });
+    expect(client.recordedMessages()).toEqual([]);
+  });
+
+  it('should record into threads that already exist', async () => {
+    await client.thread({ threadId: 'conversation-123' });
+    const onError = jest.fn();
+    const exporter = new SubtextSpanExporter(client, { onError });
+
+    await exportSpans(exporter, [createSpan({ 'gen_ai.conversation.id': 'conversation-123', 'gen_ai.completion': 'Hi!' })]);
+
+    expect(onError).not.toHaveBeenCalled();
+    expect(client.recordedRuns('conversation-123')).toHaveLength(1);
+  });
+
+  it('should report recording failures and still succeed', async () => {
+    client.injectFault({ method: 'POST', endpoint: '/api/runs', status: 500 });
+    const onError = jest.fn();
+    const exporter = new SubtextSpanExporter(client, { onError });
+
+    const result = await exportSpans(exporter, [createSpan({ 'gen_ai.completion': 'Hi there!' })]);
+
+    expect(result.code).toBe(0);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ name: 'SubtextServerError' }));
+  });
+
+  it('should plug into a span processor and wait for pending spans on shutdown', async () => {
+    const exporter = new SubtextSpanExporter(client);
+    const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+    const span = provider.getTracer('test').startSpan('chat gpt-4o', {
+      attributes: { 'gen_ai.conversation.id': 'conversation-123', 'gen_ai.completion': 'Hi there!' },
+    });
+
+    span.end();
+    await provider.shutdown();
+
+    expect(client.recordedRuns('conversation-123').map((run) => run.response)).toEqual(['Hi there!']);
+    expect(await exportSpans(exporter, [])).toMatchObject({ code: 1 });
+  });
+});
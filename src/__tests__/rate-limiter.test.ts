@@ -0,0 +1,139 @@
+/**
+ * Tests for RateLimiter
+ */
+
+import { RateLimiter } from '../rate-limiter';
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+};
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should limit the request rate after the burst', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 2 });
+    const started: number[] = [];
+    const start = Date.now();
+
+    const requests = Array.from({ length: 5 }, () =>
+      limiter.schedule(async () => {
+        started.push(Date.now() - start);
+      })
+    );
+    await jest.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 0]);
+    expect(limiter.pending).toBe(3);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(started).toEqual([0, 0, 500]);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    await Promise.all(requests);
+    expect(started).toEqual([0, 0, 500, 1000, 1500]);
+  });
+
+  it('should use the burst size as the bucket capacity', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1, burst: 3 });
+    const request = jest.fn(async () => undefined);
+
+    for (let index = 0; index < 4; index++) {
+      limiter.schedule(request);
+    }
+    await jest.advanceTimersByTimeAsync(0);
+    expect(request).toHaveBeenCalledTimes(3);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(request).toHaveBeenCalledTimes(4);
+  });
+
+  it('should limit concurrency', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 2 });
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const requests = gates.map((gate, index) =>
+      limiter.schedule(async () => {
+        started.push(index);
+        await gate.promise;
+      })
+    );
+    await jest.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1]);
+    expect(limiter.inFlight).toBe(2);
+
+    gates[1].resolve();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1, 2]);
+
+    gates[0].resolve();
+    gates[2].resolve();
+    await Promise.all(requests);
+    expect(limiter.inFlight).toBe(0);
+  });
+
+  it('should release the slot when a request fails', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1 });
+
+    await expect(limiter.schedule(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    await expect(limiter.schedule(async () => 'ok')).resolves.toBe('ok');
+  });
+
+  it('should validate its options', () => {
+    expect(() => new RateLimiter({ requestsPerSecond: 0 })).toThrow('requestsPerSecond must be a positive number');
+    expect(() => new RateLimiter({ burst: 1.5 })).toThrow('burst must be a positive integer');
+    expect(() => new RateLimiter({ maxConcurrency: 0 })).toThrow('maxConcurrency must be a positive integer');
+  });
+
+  it('should keep waiting requests alive until they are sent', async () => {
+    jest.useRealTimers();
+    const setTimeoutSpy = jest.spyOn(global, 'setTimeout');
+    const limiter = new RateLimiter({ requestsPerSecond: 20, burst: 1 });
+    const sent: number[] = [];
+
+    try {
+      for (let index = 0; index < 3; index++) {
+        const request = limiter.schedule(async () => {
+          sent.push(index);
+        });
+        if (index > 0) {
+          // The refill timer is the only thing left to start a throttled request
+          expect(setTimeoutSpy.mock.results[setTimeoutSpy.mock.results.length - 1].value.hasRef()).toBe(true);
+        }
+        await request;
+      }
+    } finally {
+      setTimeoutSpy.mockRestore();
+    }
+
+    expect(sent).toEqual([0, 1, 2]);
+  });
+
+  it('should stop its refill timer and reject waiting requests on close', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1 });
+    const request = jest.fn(async () => undefined);
+
+    const first = limiter.schedule(request);
+    const second = limiter.schedule(request);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(jest.getTimerCount()).toBe(1);
+
+    limiter.close();
+
+    expect(jest.getTimerCount()).toBe(0);
+    await expect(first).resolves.toBeUndefined();
+    await expect(second).rejects.toThrow('Client was closed; request not sent');
+    await expect(limiter.schedule(request)).rejects.toThrow('Client was closed; request not sent');
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Tests for RetryPolicy
+ */
+
+import { RetryInfo, RetryPolicy, parseRetryAfter } from '../retry';
+
+const httpError = (status: number, headers: Record<string, string> = {}) => ({
+  message: `Request failed with status code ${status}`,
+  response: { status, headers },
+});
+
+const networkError = (code: string) => ({ message: code, code });
+
+describe('RetryPolicy', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should retry retryable statuses with exponential backoff', async () => {
+    const retries: RetryInfo[] = [];
+    const policy = new RetryPolicy(3, { onRetry: (info) => retries.push(info) });
+    const request = jest.fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(httpError(502))
+      .mockResolvedValueOnce('ok');
+
+    const result = policy.execute(request);
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(request).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(4000);
+
+    await expect(result).resolves.toBe('ok');
+    expect(retries.map(({ attempt, delay, status }) => ({ attempt, delay, status }))).toEqual([
+      { attempt: 1, delay: 2000, status: 503 },
+      { attempt: 2, delay: 4000, status: 502 },
+    ]);
+  });
+
+  it('should give up after maxRetries', async () => {
+    const policy = new RetryPolicy(2, { baseDelay: 10 });
+    const request = jest.fn().mockRejectedValue(httpError(500));
+
+    const result = policy.execute(request);
+    const assertion = expect(result).rejects.toEqual(httpError(500));
+    await jest.runAllTimersAsync();
+
+    await assertion;
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry when maxRetries is 0', async () => {
+    const policy = new RetryPolicy(0);
+    const request = jest.fn().mockRejectedValue(httpError(503));
+
+    await expect(policy.execute(request)).rejects.toEqual(httpError(503));
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry other statuses', async () => {
+    const policy = new RetryPolicy(3);
+    const request = jest.fn().mockRejectedValue(httpError(400));
+
+    await expect(policy.execute(request)).rejects.toEqual(httpError(400));
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry network errors and timeouts', async () => {
+    const policy = new RetryPolicy(3, { baseDelay: 10 });
+    const request = jest.fn()
+      .mockRejectedValueOnce(networkError('ECONNRESET'))
+      .mockRejectedValueOnce(networkError('ECONNABORTED'))
+      .mockResolvedValueOnce('ok');
+
+    const result = policy.execute(request);
+    await jest.runAllTimersAsync();
+
+    await expect(result).resolves.toBe('ok');
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('should use custom retryable statuses and error codes', async () => {
+    const policy = new RetryPolicy(3, { retryableStatuses: [409], retryableErrorCodes: [] });
+
+    const conflict = jest.fn().mockRejectedValueOnce(httpError(409)).mockResolvedValueOnce('ok');
+    const result = policy.execute(conflict);
+    await jest.runAllTimersAsync();
+    await expect(result).resolves.toBe('ok');
+
+    const reset = jest.fn().mockRejectedValue(networkError('ECONNRESET'));
+    await expect(policy.execute(reset)).rejects.toEqual(networkError('ECONNRESET'));
+    expect(reset).toHaveBeenCalledTimes(1);
+  });
+
+  it('should honor Retry-After', async () => {
+    const onRetry = jest.fn();
+    const policy = new RetryPolicy(3, { onRetry });
+    const request = jest.fn()
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '7' }))
+      .mockResolvedValueOnce('ok');
+
+    const result = policy.execute(request);
+    await jest.advanceTimersByTimeAsync(6999);
+    expect(request).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe('ok');
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ delay: 7000, status: 429 }));
+  });
+
+  it('should ignore Retry-After when asked to', async () => {
+    const onRetry = jest.fn();
+    const policy = new RetryPolicy(3, { respectRetryAfter: false, onRetry });
+    const request = jest.fn()
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '60' }))
+      .mockResolvedValueOnce('ok');
+
+    const result = policy.execute(request);
+    await jest.runAllTimersAsync();
+
+    await expect(result).resolves.toBe('ok');
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ delay: 2000 }));
+  });
+
+  it('should stop when the next wait would exceed the time budget', async () => {
+    const policy = new RetryPolicy(5, { timeBudget: 5000 });
+    const request = jest.fn().mockRejectedValue(httpError(503));
+
+    const result = policy.execute(request);
+    const assertion = expect(result).rejects.toEqual(httpError(503));
+    await jest.runAllTimersAsync();
+
+    await assertion;
+    // Waits of 2000ms fit the budget, the following 4000ms would not
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should cap the delay at maxDelay', () => {
+    const policy = new RetryPolicy(10, { baseDelay: 1000, maxDelay: 5000 });
+    expect([1, 2, 3, 4].map((attempt) => policy.backoff(attempt))).toEqual([2000, 4000, 5000, 5000]);
+  });
+
+  it('should apply full and equal jitter', () => {
+    const random = () => 0.5;
+    expect(new RetryPolicy(3, { jitter: 'full' }, random).backoff(2)).toBe(2000);
+    expect(new RetryPolicy(3, { jitter: 'equal' }, random).backoff(2)).toBe(3000);
+    expect(new RetryPolicy(3, { jitter: 'full' }, () => 0).backoff(2)).toBe(0);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse seconds and HTTP dates', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT', now)).toBe(0);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+  });
+});
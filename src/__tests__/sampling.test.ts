@@ -0,0 +1,77 @@
+/**
+ * Tests for Sampler
+ */
+
+import { NotSampled } from '../models';
+import { Sampler, isThreadSampled } from '../sampling';
+
+describe('isThreadSampled', () => {
+  const threadIds = Array.from({ length: 2000 }, (_, index) => `thread-${index}`);
+
+  it('should give the same answer for the same thread', () => {
+    const first = threadIds.map((threadId) => isThreadSampled(threadId, 0.5));
+    const second = threadIds.map((threadId) => isThreadSampled(threadId, 0.5));
+
+    expect(second).toEqual(first);
+  });
+
+  it('should sample roughly the given fraction of threads', () => {
+    const sampled = threadIds.filter((threadId) => isThreadSampled(threadId, 0.25)).length;
+
+    expect(sampled / threadIds.length).toBeGreaterThan(0.2);
+    expect(sampled / threadIds.length).toBeLessThan(0.3);
+  });
+
+  it('should keep threads sampled as the rate grows', () => {
+    const atTen = threadIds.filter((threadId) => isThreadSampled(threadId, 0.1));
+
+    expect(atTen.every((threadId) => isThreadSampled(threadId, 0.5))).toBe(true);
+  });
+
+  it('should pick different threads for a different seed', () => {
+    const unseeded = threadIds.map((threadId) => isThreadSampled(threadId, 0.5));
+    const seeded = threadIds.map((threadId) => isThreadSampled(threadId, 0.5, 'experiment-2'));
+
+    expect(seeded).not.toEqual(unseeded);
+  });
+
+  it('should sample everything at 1 and nothing at 0', () => {
+    expect(threadIds.every((threadId) => isThreadSampled(threadId, 1))).toBe(true);
+    expect(threadIds.some((threadId) => isThreadSampled(threadId, 0))).toBe(false);
+  });
+});
+
+describe('Sampler', () => {
+  it('should reject rates outside 0 to 1', () => {
+    expect(() => new Sampler({ rate: 1.5 })).toThrow('sampling rate must be between 0 and 1');
+    expect(() => new Sampler({ rate: NaN })).toThrow('sampling rate must be between 0 and 1');
+  });
+
+  it('should skip every call of a thread outside the sample', () => {
+    const sampler = new Sampler({ rate: 0 });
+
+    for (const kind of ['thread', 'message', 'run'] as const) {
+      const result = sampler.check({ kind, threadId: 'thread-123' });
+      expect(result).toBeInstanceOf(NotSampled);
+      expect(result).toMatchObject({ kind, threadId: 'thread-123', reason: 'rate' });
+    }
+  });
+
+  it('should pass the thread user ID and content to the filter', () => {
+    const filter = jest.fn(({ content }) => !content?.includes('[test]'));
+    const sampler = new Sampler({ filter });
+
+    sampler.check({ kind: 'thread', threadId: 'thread-123', userId: 'user-456' });
+    const kept = sampler.check({ kind: 'message', threadId: 'thread-123', content: 'Hello' });
+    const skipped = sampler.check({ kind: 'run', threadId: 'thread-123', content: '[test] Hi' });
+
+    expect(kept).toBeUndefined();
+    expect(skipped).toMatchObject({ kind: 'run', reason: 'filter' });
+    expect(filter).toHaveBeenLastCalledWith({
+      kind: 'run',
+      threadId: 'thread-123',
+      userId: 'user-456',
+      content: '[test] Hi',
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Tests for Session
+ */
+
+import { SubtextClient } from '../client';
+import { Thread } from '../models';
+import { SubtextConflictError, SubtextServerError } from '../exceptions';
+import { Session, SessionOptions, generateId } from '../session';
+import { createClientStub } from './helpers';
+
+describe('Session', () => {
+  let client: ReturnType<typeof createClientStub>;
+
+  beforeEach(() => {
+    client = createClientStub();
+  });
+
+  const createSession = (options: SessionOptions = {}) =>
+    new Session<{ apiKey: string }>(client as unknown as SubtextClient<{ apiKey: string }>, options);
+
+  it('should create the thread lazily, once', async () => {
+    const session = createSession({ threadId: 'thread-123', userId: 'user-456' });
+    expect(client.thread).not.toHaveBeenCalled();
+
+    await Promise.all([session.userMessage('Hello'), session.userMessage('Anyone there?')]);
+
+    expect(client.thread).toHaveBeenCalledTimes(1);
+    expect(client.thread).toHaveBeenCalledWith({ threadId: 'thread-123', userId: 'user-456' });
+    expect(client.message).toHaveBeenCalledTimes(2);
+  });
+
+  it('should generate IDs and link runs to the last message', async () => {
+    const session = createSession();
+
+    const message = await session.userMessage('Hello');
+    const run = await session.assistantRun('Hi there!', { model: 'gpt-4o' });
+
+    expect(session.threadId).toMatch(/^thread_[0-9a-f-]{36}$/);
+    expect(message.messageId).toMatch(/^msg_[0-9a-f-]{36}$/);
+    expect(run.runId).toMatch(/^run_[0-9a-f-]{36}$/);
+    expect(session.lastMessage).toBe(message);
+    expect(run.messageId).toBe(message.messageId);
+    expect(client.run).toHaveBeenCalledWith(expect.objectContaining({
+      threadId: session.threadId,
+      response: 'Hi there!',
+      model: 'gpt-4o',
+    }));
+  });
+
+  it('should link a run to a message that is still being recorded', async () => {
+    const session = createSession();
+
+    const [message, run] = await Promise.all([
+      session.userMessage('Hello'),
+      session.assistantRun('Hi there!'),
+    ]);
+
+    expect(run.messageId).toBe(message.messageId);
+  });
+
+  it('should use a custom ID generator and explicit IDs', async () => {
+    let counter = 0;
+    const session = createSession({ idGenerator: (kind) => `${kind}-${++counter}` });
+
+    await session.userMessage('Hello');
+    await session.assistantRun('Hi there!', { runId: 'my-run', messageId: 'other-message' });
+
+    expect(session.threadId).toBe('thread-1');
+    expect(client.message).toHaveBeenCalledWith({ threadId: 'thread-1', message: 'Hello', messageId: 'message-2' });
+    expect(client.run).toHaveBeenCalledWith(expect.objectContaining({
+      runId: 'my-run',
+      messageId: 'other-message',
+    }));
+  });
+
+  it('should retry thread creation after a failure', async () => {
+    client.thread.mockRejectedValueOnce(new SubtextServerError('Internal server error', 500));
+    const session = createSession();
+
+    await expect(session.userMessage('Hello')).rejects.toThrow(SubtextServerError);
+    expect(client.message).not.toHaveBeenCalled();
+
+    await session.userMessage('Hello');
+    expect(client.thread).toHaveBeenCalledTimes(2);
+    expect(client.message).toHaveBeenCalledTimes(1);
+  });
+
+  it('should continue a thread that already exists', async () => {
+    client.thread.mockRejectedValueOnce(new SubtextConflictError('Thread already exists'));
+    const session = createSession({ threadId: 'thread-123' });
+
+    await expect(session.start()).resolves.toBeUndefined();
+    await session.userMessage('Hello again');
+
+    expect(client.thread).toHaveBeenCalledTimes(1);
+    expect(client.message).toHaveBeenCalledWith(expect.objectContaining({ threadId: 'thread-123' }));
+  });
+
+  it('should not create the thread when continuing an existing one', async () => {
+    const session = createSession({ threadId: 'thread-123', createThread: false });
+
+    await session.assistantRun('Welcome back!');
+
+    expect(client.thread).not.toHaveBeenCalled();
+    expect(client.run).toHaveBeenCalledWith(expect.objectContaining({
+      threadId: 'thread-123',
+      messageId: undefined,
+    }));
+  });
+
+  it('should require text', async () => {
+    const session = createSession();
+    await expect(session.userMessage('')).rejects.toThrow('message is required');
+    await expect(session.assistantRun('')).rejects.toThrow('response is required');
+  });
+});
+
+describe('generateId', () => {
+  it('should generate unique prefixed IDs', () => {
+    const ids = new Set(Array.from({ length: 100 }, () => generateId('message')));
+    expect(ids.size).toBe(100);
+    expect(generateId('run')).toMatch(/^run_/);
+  });
+});
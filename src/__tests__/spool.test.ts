@@ -0,0 +1,151 @@
+/**
+ * Tests for FileSpool
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BatchItem, BatchResult } from '../batch';
+import { FileSpool } from '../spool';
+import { Thread } from '../models';
+import {
+  SubtextConnectionError,
+  SubtextValidationError,
+} from '../exceptions';
+
+const threadItem = (threadId: string): BatchItem => ({
+  kind: 'thread',
+  payload: { thread_id: threadId },
+});
+
+const threadResult = (threadId: string): BatchResult =>
+  new Thread({
+    id: '1',
+    thread_id: threadId,
+    created_at: '2023-01-01T00:00:00Z',
+    modified_at: '2023-01-01T00:00:00Z',
+  });
+
+describe('FileSpool', () => {
+  let directory: string;
+  let send: jest.Mock<Promise<BatchResult>, [BatchItem]>;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'subtext-spool-'));
+    send = jest.fn(async (item: BatchItem) => threadResult(item.payload.thread_id));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const createSpool = (maxBytes?: number) =>
+    new FileSpool(send, { directory, maxBytes, replayOnStartup: false });
+
+  it('should append entries as JSON lines', async () => {
+    const spool = createSpool();
+    await spool.append(threadItem('thread-1'));
+    await spool.append(threadItem('thread-2'));
+
+    const content = await fs.readFile(spool.path, 'utf8');
+    expect(content.trim().split('\n')).toHaveLength(2);
+
+    const entries = await spool.entries();
+    expect(entries.map((entry) => entry.payload.thread_id)).toEqual(['thread-1', 'thread-2']);
+    expect(entries[0].spooled_at).toEqual(expect.any(String));
+  });
+
+  it('should skip corrupt lines', async () => {
+    const spool = createSpool();
+    await spool.append(threadItem('thread-1'));
+    await fs.appendFile(spool.path, '{"kind":"thread","payl\nnot json\n{"kind":"unknown","payload":{}}\n');
+    await spool.append(threadItem('thread-2'));
+
+    const entries = await spool.entries();
+    expect(entries.map((entry) => entry.payload.thread_id)).toEqual(['thread-1', 'thread-2']);
+
+    const result = await spool.replay();
+    expect(result).toEqual({ replayed: 2, dropped: 0, remaining: 0, corrupt: 3 });
+  });
+
+  it('should discard entries once the size cap is reached', async () => {
+    const spool = createSpool(150);
+    expect(await spool.append(threadItem('thread-1'))).toBe(true);
+    expect(await spool.append(threadItem('thread-2'))).toBe(false);
+
+    expect(await spool.entries()).toHaveLength(1);
+  });
+
+  it('should replay in order and stop at the first transient failure', async () => {
+    const spool = createSpool();
+    await spool.append(threadItem('thread-1'));
+    await spool.append(threadItem('thread-2'));
+    await spool.append(threadItem('thread-3'));
+
+    send
+      .mockResolvedValueOnce(threadResult('thread-1'))
+      .mockRejectedValueOnce(new SubtextConnectionError());
+
+    const result = await spool.replay();
+
+    expect(send.mock.calls.map(([item]) => item.payload.thread_id)).toEqual(['thread-1', 'thread-2']);
+    expect(send.mock.calls[0][0]).toEqual(threadItem('thread-1'));
+    expect(result).toEqual({ replayed: 1, dropped: 0, remaining: 2, corrupt: 0 });
+
+    const entries = await spool.entries();
+    expect(entries.map((entry) => entry.payload.thread_id)).toEqual(['thread-2', 'thread-3']);
+  });
+
+  it('should keep entries appended while replaying', async () => {
+    const spool = createSpool();
+    await spool.append(threadItem('thread-1'));
+    await spool.append(threadItem('thread-2'));
+
+    send
+      .mockImplementationOnce(async (item) => {
+        await spool.append(threadItem('thread-3'));
+        return threadResult(item.payload.thread_id);
+      })
+      .mockRejectedValueOnce(new SubtextConnectionError());
+
+    const [result, shared] = await Promise.all([spool.replay(), spool.replay()]);
+
+    expect(shared).toBe(result);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({ replayed: 1, dropped: 0, remaining: 1, corrupt: 0 });
+    const entries = await spool.entries();
+    expect(entries.map((entry) => entry.payload.thread_id)).toEqual(['thread-2', 'thread-3']);
+  });
+
+  it('should drop entries the API rejects', async () => {
+    const spool = createSpool();
+    await spool.append(threadItem('thread-1'));
+    await spool.append(threadItem('thread-2'));
+
+    send.mockRejectedValueOnce(new SubtextValidationError('thread_id is invalid'));
+
+    const result = await spool.replay();
+
+    expect(result).toEqual({ replayed: 1, dropped: 1, remaining: 0, corrupt: 0 });
+    expect(await spool.entries()).toEqual([]);
+  });
+
+  it('should replay on startup', async () => {
+    await createSpool().append(threadItem('thread-1'));
+
+    const onReplay = jest.fn();
+    const replayed = new Promise((resolve) => onReplay.mockImplementation(resolve));
+    new FileSpool(send, { directory, onReplay });
+
+    expect(await replayed).toEqual({ replayed: 1, dropped: 0, remaining: 0, corrupt: 0 });
+    expect(send).toHaveBeenCalledWith(threadItem('thread-1'));
+  });
+
+  it('should clear the spool', async () => {
+    const spool = createSpool();
+    await spool.append(threadItem('thread-1'));
+    await spool.clear();
+
+    expect(await spool.entries()).toEqual([]);
+  });
+});
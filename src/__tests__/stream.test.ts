@@ -0,0 +1,182 @@
+/**
+ * Tests for captureStream
+ */
+
+import { SubtextClient } from '../client';
+import { Run } from '../models';
+import { SubtextServerError } from '../exceptions';
+import { CaptureStreamOptions, captureStream } from '../stream';
+import { createTestClient } from '../testing';
+import { createClientStub } from './helpers';
+
+async function* openAIChunks() {
+  yield { choices: [{ delta: { content: 'Hello' } }] };
+  yield { choices: [{ delta: { content: ', world' } }] };
+  yield { choices: [] };
+}
+
+async function* failingChunks() {
+  yield 'Hello';
+  throw new Error('socket hang up');
+}
+
+describe('captureStream', () => {
+  let client: ReturnType<typeof createClientStub>;
+
+  beforeEach(() => {
+    client = createClientStub();
+  });
+
+  const capture = <I extends AsyncIterable<any>>(
+    stream: I,
+    options: Partial<CaptureStreamOptions<I extends AsyncIterable<infer T> ? T : never>> = {}
+  ) => {
+    let recorded!: (run: Run) => void;
+    const done = new Promise<Run>((resolve) => {
+      recorded = resolve;
+    });
+    const captured = captureStream(client as unknown as SubtextClient, stream, {
+      threadId: 'thread-123',
+      runId: 'run-456',
+      onRun: recorded,
+      ...options,
+    });
+    return { captured, done };
+  };
+
+  it('should pass chunks through and record the run when the stream ends', async () => {
+    const { captured, done } = capture(openAIChunks(), { model: 'gpt-4o' });
+
+    const received: unknown[] = [];
+    for await (const chunk of captured) {
+      received.push(chunk);
+    }
+    const run = await done;
+
+    expect(received).toHaveLength(3);
+    expect(run.response).toBe('Hello, world');
+    expect(client.run).toHaveBeenCalledWith(expect.objectContaining({
+      threadId: 'thread-123',
+      runId: 'run-456',
+      response: 'Hello, world',
+      model: 'gpt-4o',
+      startedAt: expect.any(Date),
+      endedAt: expect.any(Date),
+      timeToFirstTokenMs: expect.any(Number),
+      partial: undefined,
+      error: undefined,
+    }));
+  });
+
+  it('should measure the time to the first chunk with text', async () => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+    try {
+      async function* slowStart() {
+        yield { choices: [{ delta: { role: 'assistant' } }] };
+        jest.setSystemTime(Date.now() + 500);
+        yield { choices: [{ delta: { content: 'Hello' } }] };
+      }
+      const testClient = createTestClient();
+      await testClient.thread({ threadId: 'thread-123' });
+      let recorded!: (run: Run) => void;
+      const done = new Promise<Run>((resolve) => {
+        recorded = resolve;
+      });
+      const captured = captureStream(testClient, slowStart(), { threadId: 'thread-123', runId: 'run-456', onRun: recorded });
+
+      for await (const _chunk of captured) {
+        // Drain the stream
+      }
+      await done;
+
+      expect(testClient.recordedRuns('thread-123')[0].timeToFirstTokenMs).toBe(500);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should record a partial run when the consumer stops early', async () => {
+    const { captured, done } = capture(openAIChunks());
+
+    for await (const _chunk of captured) {
+      break;
+    }
+    await done;
+
+    expect(client.run).toHaveBeenCalledWith(expect.objectContaining({
+      response: 'Hello',
+      partial: true,
+    }));
+  });
+
+  it('should record a partial run with the error when the stream fails', async () => {
+    const { captured, done } = capture(failingChunks());
+
+    await expect((async () => {
+      for await (const _chunk of captured) {
+        // consume
+      }
+    })()).rejects.toThrow('socket hang up');
+    await done;
+
+    expect(client.run).toHaveBeenCalledWith(expect.objectContaining({
+      response: 'Hello',
+      partial: true,
+      error: 'socket hang up',
+    }));
+  });
+
+  it('should use a custom text extractor', async () => {
+    async function* events() {
+      yield { token: 'a' };
+      yield { token: 'b' };
+    }
+    const { captured, done } = capture(events(), { extractText: (event) => event.token });
+
+    for await (const _event of captured) {
+      // consume
+    }
+    await done;
+
+    expect(client.run).toHaveBeenCalledWith(expect.objectContaining({ response: 'ab' }));
+  });
+
+  it('should not record a run when no text was received', async () => {
+    async function* empty() {
+      yield { choices: [] };
+    }
+    const { captured } = capture(empty());
+
+    for await (const _chunk of captured) {
+      // consume
+    }
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(client.run).not.toHaveBeenCalled();
+  });
+
+  it('should report recording failures to onError', async () => {
+    client.run.mockRejectedValue(new SubtextServerError('Internal server error', 500));
+    const failed = new Promise<Error>((resolve) => {
+      const { captured } = capture(openAIChunks(), { onError: resolve });
+      (async () => {
+        for await (const _chunk of captured) {
+          // consume
+        }
+      })();
+    });
+
+    expect(await failed).toBeInstanceOf(SubtextServerError);
+  });
+
+  it('should require a thread ID and run ID', () => {
+    expect(() => captureStream(client as unknown as SubtextClient, openAIChunks(), {
+      threadId: '',
+      runId: 'run-456',
+    })).toThrow('threadId is required');
+    expect(() => captureStream(client as unknown as SubtextClient, openAIChunks(), {
+      threadId: 'thread-123',
+      runId: '',
+    })).toThrow('runId is required');
+  });
+});
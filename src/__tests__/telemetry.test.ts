@@ -0,0 +1,110 @@
+/**
+ * Tests for the OpenTelemetry middleware
+ */
+
+import { propagation, SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import { AggregationTemporality, MeterProvider, MetricReader } from '@opentelemetry/sdk-metrics';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { SubtextServerError } from '../exceptions';
+import { telemetry } from '../telemetry';
+import { createTestClient } from '../testing';
+
+class TestMetricReader extends MetricReader {
+  constructor() {
+    super({ aggregationTemporalitySelector: () => AggregationTemporality.CUMULATIVE });
+  }
+
+  protected async onForceFlush(): Promise<void> {}
+
+  protected async onShutdown(): Promise<void> {}
+}
+
+describe('telemetry', () => {
+  let exporter: InMemorySpanExporter;
+  let tracerProvider: BasicTracerProvider;
+  let reader: TestMetricReader;
+  let meterProvider: MeterProvider;
+
+  beforeAll(() => {
+    propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+  });
+
+  afterAll(() => {
+    propagation.disable();
+  });
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    tracerProvider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+    reader = new TestMetricReader();
+    meterProvider = new MeterProvider({ readers: [reader] });
+  });
+
+  it('should create a span per request with the thread ID', async () => {
+    const client = createTestClient();
+    client.use(telemetry({ tracerProvider, meterProvider }));
+
+    await client.thread({ threadId: 'thread-123' });
+    await client.getThread('thread-123');
+
+    const spans = exporter.getFinishedSpans();
+    expect(spans.map((span) => span.name)).toEqual(['POST /api/threads', 'GET /api/threads/{id}']);
+    expect(spans[0].kind).toBe(SpanKind.CLIENT);
+    expect(spans[0].attributes).toMatchObject({
+      'http.request.method': 'POST',
+      'http.route': '/api/threads',
+      'http.response.status_code': 201,
+      'http.request.resend_count': 0,
+      'subtext.thread_id': 'thread-123',
+    });
+    expect(spans[1].attributes['subtext.thread_id']).toBe('thread-123');
+  });
+
+  it('should send the trace context in a traceparent header', async () => {
+    const client = createTestClient();
+    client.use(telemetry({ tracerProvider, meterProvider }));
+
+    await client.thread({ threadId: 'thread-123' });
+
+    const [span] = exporter.getFinishedSpans();
+    const { traceId, spanId } = span.spanContext();
+    expect(client.requests[0].headers).toMatchObject({ traceparent: `00-${traceId}-${spanId}-01` });
+  });
+
+  it('should record failed attempts with their error class and retry count', async () => {
+    const client = createTestClient({ maxRetries: 1, retry: { baseDelay: 0 } });
+    client.use(telemetry({ tracerProvider, meterProvider }));
+    client.injectFault({ method: 'POST', endpoint: '/api/threads', status: 500, times: 2 });
+
+    await expect(client.thread({ threadId: 'thread-123' })).rejects.toThrow(SubtextServerError);
+
+    const spans = exporter.getFinishedSpans();
+    expect(spans.map((span) => span.attributes['http.request.resend_count'])).toEqual([0, 1]);
+    expect(spans[1].attributes).toMatchObject({
+      'http.response.status_code': 500,
+      'error.type': 'SubtextServerError',
+    });
+    expect(spans[1].status.code).toBe(SpanStatusCode.ERROR);
+    expect(spans[1].events.map((event) => event.name)).toEqual(['exception']);
+  });
+
+  it('should record request counts and durations', async () => {
+    const client = createTestClient();
+    client.use(telemetry({ tracerProvider, meterProvider }));
+
+    await client.thread({ threadId: 'thread-123' });
+    await client.message({ threadId: 'thread-123', message: 'Hello', messageId: 'msg-1' });
+
+    const { resourceMetrics } = await reader.collect();
+    const metrics = resourceMetrics.scopeMetrics[0].metrics;
+    const counter = metrics.find((metric) => metric.descriptor.name === 'subtext.client.requests')!;
+    expect(counter.dataPoints.map((point) => [point.attributes['http.route'], point.value])).toEqual([
+      ['/api/threads', 1],
+      ['/api/messages', 1],
+    ]);
+    const histogram = metrics.find((metric) => metric.descriptor.name === 'subtext.client.request.duration')!;
+    expect(histogram.descriptor.unit).toBe('ms');
+    expect(histogram.dataPoints).toHaveLength(2);
+  });
+});
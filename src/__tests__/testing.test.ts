@@ -0,0 +1,123 @@
+/**
+ * Tests for the in-memory test client
+ */
+
+import { Message, Run } from '../models';
+import {
+  SubtextConflictError,
+  SubtextNotFoundError,
+  SubtextRateLimitError,
+  SubtextServerError,
+  SubtextTimeoutError,
+} from '../exceptions';
+import { createTestClient, InMemorySubtextClient } from '../testing';
+
+describe('InMemorySubtextClient', () => {
+  let client: InMemorySubtextClient;
+
+  beforeEach(() => {
+    client = createTestClient();
+  });
+
+  it('should store threads, messages and runs', async () => {
+    await client.thread({ threadId: 'thread-123', userId: 'user-456' });
+    await client.message({ threadId: 'thread-123', message: 'Hello', messageId: 'msg-1' });
+    await client.run({ threadId: 'thread-123', runId: 'run-1', response: 'Hi!', messageId: 'msg-1', model: 'gpt-4o' });
+
+    expect(client.recordedThreads().map((thread) => thread.userId)).toEqual(['user-456']);
+    expect(client.recordedMessages('thread-123').map((message) => message.message)).toEqual(['Hello']);
+    expect(client.recordedRuns()[0]).toMatchObject({ runId: 'run-1', messageId: 'msg-1', model: 'gpt-4o' });
+    expect(client.requests.map(({ method, endpoint }) => `${method} ${endpoint}`)).toEqual([
+      'POST /api/threads',
+      'POST /api/messages',
+      'POST /api/runs',
+    ]);
+
+    const entries = [];
+    for await (const entry of client.getConversation('thread-123')) {
+      entries.push(entry);
+    }
+    expect(entries.map((entry) => entry.constructor)).toEqual([Message, Run]);
+  });
+
+  it('should reject messages for unknown threads and duplicate IDs', async () => {
+    await expect(client.message({ threadId: 'missing', message: 'Hello', messageId: 'msg-1' }))
+      .rejects.toThrow(SubtextNotFoundError);
+
+    await client.thread({ threadId: 'thread-123' });
+    await expect(client.thread({ threadId: 'thread-123' })).rejects.toThrow(SubtextConflictError);
+    expect(client.recordedMessages()).toEqual([]);
+  });
+
+  it('should answer a reused idempotency key with the original response', async () => {
+    await client.thread({ threadId: 'thread-123' });
+    const first = await client.message({ threadId: 'thread-123', message: 'Hello', messageId: 'msg-1', idempotencyKey: 'key-1' });
+
+    const replayed = await client.message({ threadId: 'thread-123', message: 'Hello', messageId: 'msg-1', idempotencyKey: 'key-1' });
+
+    expect(replayed.toDict()).toEqual(first.toDict());
+    await expect(client.message({ threadId: 'thread-123', message: 'Hello', messageId: 'msg-1', idempotencyKey: 'key-2' }))
+      .rejects.toThrow(SubtextConflictError);
+    expect(client.recordedMessages()).toHaveLength(1);
+  });
+
+  it('should run the same client-side validation as SubtextClient', async () => {
+    await expect(client.run({ threadId: 'thread-123', runId: 'run-1', response: 'Hi', temperature: 3 }))
+      .rejects.toThrow('temperature must be between 0 and 2');
+    expect(client.requests).toEqual([]);
+  });
+
+  it('should page through, update and delete threads', async () => {
+    for (const threadId of ['a', 'b', 'c']) {
+      await client.thread({ threadId, userId: 'user-456' });
+    }
+    await client.updateThread('b', { metadata: { plan: 'pro' } });
+
+    const page = await client.listThreads({ userId: 'user-456', limit: 2 });
+    expect(page.data.map((thread) => thread.threadId)).toEqual(['a', 'b']);
+    expect(page.data[1].metadata).toEqual({ plan: 'pro' });
+    expect((await page.getNextPage())!.data.map((thread) => thread.threadId)).toEqual(['c']);
+
+    const result = await client.deleteUserData('user-456');
+    expect(result.deleted).toBe(3);
+    expect(await client.deleteThread('a')).toBe(false);
+  });
+
+  it('should fail requests with injected faults', async () => {
+    await client.thread({ threadId: 'thread-123' });
+    client.injectFault({ endpoint: '/api/runs', status: 503 });
+    client.injectFault({ method: 'POST', code: 'ECONNABORTED' });
+    client.injectFault({ status: 429, headers: { 'retry-after': '2' } });
+
+    const run = { threadId: 'thread-123', runId: 'run-1', response: 'Hi!' };
+    await expect(client.run(run)).rejects.toThrow(SubtextServerError);
+    await expect(client.run(run)).rejects.toThrow(SubtextTimeoutError);
+    const rateLimited = await client.getThread('thread-123').catch((error) => error);
+    expect(rateLimited).toBeInstanceOf(SubtextRateLimitError);
+    expect(rateLimited.retryAfter).toBe(2000);
+
+    await client.run(run);
+    expect(client.recordedRuns()).toHaveLength(1);
+  });
+
+  it('should let retries recover from injected faults', async () => {
+    const retrying = createTestClient({ maxRetries: 2, retry: { baseDelay: 0 } });
+    retrying.injectFault({ status: 502, times: 2 });
+
+    await retrying.thread({ threadId: 'thread-123' });
+
+    expect(retrying.requests).toHaveLength(3);
+    expect(retrying.recordedThreads()).toHaveLength(1);
+  });
+
+  it('should forget everything on reset', async () => {
+    await client.thread({ threadId: 'thread-123' });
+    client.injectFault({ times: Infinity });
+
+    client.reset();
+
+    expect(client.recordedThreads()).toEqual([]);
+    expect(client.requests).toEqual([]);
+    await expect(client.thread({ threadId: 'thread-123' })).resolves.toBeDefined();
+  });
+});
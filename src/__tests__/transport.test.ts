@@ -0,0 +1,124 @@
+/**
+ * Tests for the axios and fetch transports, against a local HTTP server
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { SubtextClient } from '../client';
+import {
+  SubtextNotFoundError,
+  SubtextTimeoutError,
+  SubtextConnectionError,
+  SubtextRateLimitError,
+} from '../exceptions';
+import { AxiosTransport, FetchTransport, Transport, TransportConfig } from '../transport';
+
+type Handler = (request: IncomingMessage, body: string, response: ServerResponse) => void;
+
+const json = (response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  response.end(JSON.stringify(body));
+};
+
+const transports: Array<[string, (config: TransportConfig) => Transport]> = [
+  ['AxiosTransport', (config) => new AxiosTransport(config)],
+  ['FetchTransport', (config) => new FetchTransport(config)],
+];
+
+describe.each(transports)('%s', (_name, createTransport) => {
+  let server: Server;
+  let baseUrl: string;
+  let handler: Handler;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => handler(request, body, response));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const createClient = (options: { timeout?: number; maxRetries?: number } = {}) =>
+    new SubtextClient({
+      apiKey: 'test-api-key',
+      baseUrl,
+      retry: { baseDelay: 1 },
+      transport: createTransport,
+      ...options,
+    });
+
+  it('should send the API key, headers, body and query parameters', async () => {
+    const seen: Array<{ method?: string; url?: string; headers: IncomingMessage['headers']; body: string }> = [];
+    handler = (request, body, response) => {
+      seen.push({ method: request.method, url: request.url, headers: request.headers, body });
+      if (request.method === 'POST') {
+        json(response, 201, { data: { id: '1', thread_id: 'thread-123', created_at: 'now', modified_at: 'now' } });
+      } else {
+        json(response, 200, { data: [], next_cursor: null });
+      }
+    };
+    const client = createClient();
+
+    await client.thread({ threadId: 'thread-123', idempotencyKey: 'key-1' });
+    await client.listThreads({ limit: 5 });
+
+    expect(seen[0]).toMatchObject({ method: 'POST', url: '/api/threads' });
+    expect(seen[0].headers).toMatchObject({
+      'x-api-key': 'test-api-key',
+      'content-type': 'application/json',
+      'idempotency-key': 'key-1',
+    });
+    expect(JSON.parse(seen[0].body)).toEqual({ thread_id: 'thread-123' });
+    expect(seen[1]).toMatchObject({ method: 'GET', url: '/api/threads?limit=5' });
+  });
+
+  it('should map error responses', async () => {
+    handler = (_request, _body, response) => json(response, 404, { error: 'Thread not found' });
+
+    const error = await createClient().getThread('missing').catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(SubtextNotFoundError);
+    expect(error.message).toBe('Thread not found');
+  });
+
+  it('should retry and read rate limit headers', async () => {
+    let requests = 0;
+    handler = (_request, _body, response) => {
+      requests += 1;
+      json(response, 429, { error: 'Slow down' }, { 'Retry-After': '0', 'X-RateLimit-Limit': '10' });
+    };
+
+    const error = await createClient({ maxRetries: 2 }).getThread('thread-123').catch((caught) => caught);
+
+    expect(requests).toBe(3);
+    expect(error).toBeInstanceOf(SubtextRateLimitError);
+    expect(error.limit).toBe(10);
+  });
+
+  it('should time out', async () => {
+    handler = (_request, _body, response) => {
+      setTimeout(() => json(response, 200, { data: [] }), 200);
+    };
+
+    await expect(createClient({ timeout: 20, maxRetries: 0 }).getThread('thread-123'))
+      .rejects.toThrow(SubtextTimeoutError);
+  });
+
+  it('should report connection failures', async () => {
+    const client = new SubtextClient({
+      apiKey: 'test-api-key',
+      baseUrl: 'http://127.0.0.1:1',
+      maxRetries: 0,
+      transport: createTransport,
+    });
+
+    await expect(client.getThread('thread-123')).rejects.toThrow(SubtextConnectionError);
+  });
+});
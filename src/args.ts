@@ -0,0 +1,94 @@
+/**
+ * Minimal command line argument parsing for the CLI.
+ */
+
+export interface ArgOption {
+  type: 'string' | 'boolean';
+  /** Single-letter alias, e.g. "h" for "-h" */
+  short?: string;
+  /** Collect every occurrence into an array */
+  multiple?: boolean;
+}
+
+type ArgValue<Option extends ArgOption> = Option['type'] extends 'boolean'
+  ? boolean
+  : Option['multiple'] extends true
+    ? string[]
+    : string;
+
+export interface ParsedArgs<Options extends Record<string, ArgOption>> {
+  values: { [Name in keyof Options]?: ArgValue<Options[Name]> };
+  positionals: string[];
+}
+
+/**
+ * Parse arguments such as `--format csv`, `--format=csv`, `--dry-run` and `-h`.
+ *
+ * A subset of Node's `util.parseArgs`, which needs Node.js 18.3. Unknown
+ * options, missing values and, unless allowed, positional arguments throw.
+ * Arguments after `--` are positional.
+ */
+export function parseArgs<Options extends Record<string, ArgOption>>(config: {
+  args: string[];
+  options: Options;
+  allowPositionals?: boolean;
+}): ParsedArgs<Options> {
+  const values: Record<string, string | string[] | boolean> = {};
+  const positionals: string[] = [];
+  const shorts = new Map(
+    Object.entries(config.options)
+      .filter(([, option]) => option.short)
+      .map(([name, option]) => [option.short as string, name])
+  );
+
+  const addPositional = (arg: string) => {
+    if (!config.allowPositionals) {
+      throw new Error(`Unexpected argument '${arg}'`);
+    }
+    positionals.push(arg);
+  };
+
+  for (let index = 0; index < config.args.length; index++) {
+    const arg = config.args[index];
+    if (arg === '--') {
+      config.args.slice(index + 1).forEach(addPositional);
+      break;
+    }
+    if (!arg.startsWith('-') || arg === '-') {
+      addPositional(arg);
+      continue;
+    }
+
+    const equals = arg.indexOf('=');
+    const flag = equals === -1 ? arg : arg.slice(0, equals);
+    const name = flag.startsWith('--') ? flag.slice(2) : shorts.get(flag.slice(1));
+    const option = name !== undefined && Object.prototype.hasOwnProperty.call(config.options, name)
+      ? config.options[name]
+      : undefined;
+    if (name === undefined || !option) {
+      throw new Error(`Unknown option '${flag}'`);
+    }
+
+    if (option.type === 'boolean') {
+      if (equals !== -1) {
+        throw new Error(`Option '${flag}' does not take a value`);
+      }
+      values[name] = true;
+      continue;
+    }
+
+    let value: string | undefined;
+    if (equals !== -1) {
+      value = arg.slice(equals + 1);
+    } else {
+      value = config.args[index + 1];
+      if (value === undefined || value.startsWith('-')) {
+        throw new Error(`Option '${flag} <value>' argument missing`);
+      }
+      index += 1;
+    }
+    values[name] = option.multiple ? [...((values[name] as string[] | undefined) ?? []), value] : value;
+  }
+
+  return { values, positionals } as ParsedArgs<Options>;
+}
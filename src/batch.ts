@@ -0,0 +1,224 @@
+/**
+ * In-memory batching queue for thread, message and run ingestion.
+ */
+
+import {
+  CreateMessageRequest,
+  CreateRunRequest,
+  CreateThreadRequest,
+  Message,
+  Run,
+  Thread,
+} from './models';
+import { SubtextAPIError } from './exceptions';
+
+/**
+ * A single queued call, tagged with the kind of resource it creates.
+ *
+ * The idempotency key travels with the item so that every delivery attempt,
+ * including spool replays, is recognised by the API as the same request.
+ */
+export type BatchItem = (
+  | { kind: 'thread'; payload: CreateThreadRequest }
+  | { kind: 'message'; payload: CreateMessageRequest }
+  | { kind: 'run'; payload: CreateRunRequest }
+) & { idempotencyKey?: string };
+
+/**
+ * The resource created for a delivered batch item.
+ */
+export type BatchResult = Thread | Message | Run;
+
+export interface BatchOptions {
+  /** Maximum number of items sent in a single batch (default: 100) */
+  maxBatchSize?: number;
+  /** Maximum combined JSON size of a batch in bytes (default: 1048576) */
+  maxBatchBytes?: number;
+  /** Milliseconds to wait before flushing queued items (default: 1000) */
+  flushInterval?: number;
+  /** Called for every item that was delivered successfully */
+  onSuccess?: (item: BatchItem, result: BatchResult) => void;
+  /** Called for every item that could not be delivered */
+  onError?: (item: BatchItem, error: SubtextAPIError) => void;
+}
+
+interface PendingEntry {
+  item: BatchItem;
+  bytes: number;
+  resolve: (result: BatchResult) => void;
+  reject: (error: SubtextAPIError) => void;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Queues thread, message and run calls in memory and delivers them in batches.
+ *
+ * A batch is sent as soon as `maxBatchSize` items or `maxBatchBytes` bytes are
+ * queued, or `flushInterval` milliseconds after the first item was queued,
+ * whichever comes first. Batches are delivered one at a time and in order.
+ * Within a batch, the items of each thread are sent one after another.
+ */
+export class BatchQueue {
+  private send: (item: BatchItem) => Promise<BatchResult>;
+  private maxBatchSize: number;
+  private maxBatchBytes: number;
+  private flushInterval: number;
+  private onSuccess?: (item: BatchItem, result: BatchResult) => void;
+  private onError?: (item: BatchItem, error: SubtextAPIError) => void;
+  private pending: PendingEntry[] = [];
+  private pendingBytes = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(send: (item: BatchItem) => Promise<BatchResult>, options: BatchOptions = {}) {
+    this.send = send;
+    this.maxBatchSize = options.maxBatchSize || 100;
+    this.maxBatchBytes = options.maxBatchBytes || 1024 * 1024;
+    this.flushInterval = options.flushInterval || 1000;
+    this.onSuccess = options.onSuccess;
+    this.onError = options.onError;
+  }
+
+  /** The number of items waiting to be sent. */
+  get size(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Add an item to the queue.
+   *
+   * @returns Promise that resolves once the item has been delivered
+   */
+  enqueue<T extends BatchResult>(item: BatchItem): Promise<T> {
+    const bytes = encoder.encode(JSON.stringify(item.payload)).length;
+    const promise = new Promise<T>((resolve, reject) => {
+      this.pending.push({
+        item,
+        bytes,
+        resolve: resolve as (result: BatchResult) => void,
+        reject,
+      });
+    });
+    // Failures are reported through onError, so callers that fire and forget
+    // must not end up with an unhandled rejection.
+    promise.catch(() => undefined);
+    this.pendingBytes += bytes;
+
+    if (this.pending.length >= this.maxBatchSize || this.pendingBytes >= this.maxBatchBytes) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => {
+        void this.flush();
+      }, this.flushInterval);
+    }
+
+    return promise;
+  }
+
+  /**
+   * Send every queued item.
+   *
+   * @returns Promise that resolves once all items queued so far have been delivered or failed
+   */
+  flush(): Promise<void> {
+    this.clearTimer();
+    this.flushing = this.flushing.then(() => this.drain());
+    return this.flushing;
+  }
+
+  /**
+   * Stop the flush timer and reject the items still in the queue without sending them.
+   */
+  stop(): void {
+    this.clearTimer();
+    this.pendingBytes = 0;
+    for (const entry of this.pending.splice(0)) {
+      this.fail(entry, new SubtextAPIError('Client was closed; request not sent'));
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async drain(): Promise<void> {
+    while (this.pending.length > 0) {
+      await this.sendBatch(this.takeBatch());
+    }
+  }
+
+  private takeBatch(): PendingEntry[] {
+    let count = 0;
+    let bytes = 0;
+
+    while (count < this.pending.length && count < this.maxBatchSize) {
+      const next = this.pending[count].bytes;
+      // Always take at least one item, even if it exceeds the byte limit on its own
+      if (count > 0 && bytes + next > this.maxBatchBytes) {
+        break;
+      }
+      bytes += next;
+      count += 1;
+    }
+
+    this.pendingBytes -= bytes;
+    return this.pending.splice(0, count);
+  }
+
+  private async sendBatch(batch: PendingEntry[]): Promise<void> {
+    // Each thread's items are sent in order, so that the API stores messages and
+    // runs in the order they were made. Threads go out first so that messages and
+    // runs in the same batch can reference them.
+    const threads = new Map<string, PendingEntry[]>();
+    const ordered = [
+      ...batch.filter((entry) => entry.item.kind === 'thread'),
+      ...batch.filter((entry) => entry.item.kind !== 'thread'),
+    ];
+    for (const entry of ordered) {
+      const entries = threads.get(entry.item.payload.thread_id);
+      if (entries) {
+        entries.push(entry);
+      } else {
+        threads.set(entry.item.payload.thread_id, [entry]);
+      }
+    }
+
+    await Promise.all(
+      [...threads.values()].map(async (entries) => {
+        for (const entry of entries) {
+          await this.deliver(entry);
+        }
+      })
+    );
+  }
+
+  private async deliver(entry: PendingEntry): Promise<void> {
+    try {
+      const result = await this.send(entry.item);
+      entry.resolve(result);
+      this.notify(() => this.onSuccess?.(entry.item, result));
+    } catch (error) {
+      this.fail(
+        entry,
+        error instanceof SubtextAPIError ? error : new SubtextAPIError((error as Error).message)
+      );
+    }
+  }
+
+  private fail(entry: PendingEntry, error: SubtextAPIError): void {
+    entry.reject(error);
+    this.notify(() => this.onError?.(entry.item, error));
+  }
+
+  private notify(callback: () => void): void {
+    try {
+      callback();
+    } catch {
+      // A throwing callback must not stop the rest of the batch from being delivered
+    }
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Client-side circuit breaker for requests to the Subtext API.
+ */
+
+import { SubtextCircuitOpenError, isSpoolableError } from './exceptions';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive server, connection or timeout failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** Milliseconds the circuit stays open before a probe request is let through (default: 30000) */
+  resetTimeout?: number;
+  /** Called whenever the circuit changes state */
+  onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+}
+
+/**
+ * Fails requests fast while the API looks unhealthy.
+ *
+ * After `failureThreshold` consecutive transient failures the circuit opens and
+ * every request is rejected with `SubtextCircuitOpenError` without being sent.
+ * Once `resetTimeout` has passed, the circuit half-opens and a single probe
+ * request is let through: if it succeeds the circuit closes, otherwise it opens again.
+ */
+export class CircuitBreaker {
+  private failureThreshold: number;
+  private resetTimeout: number;
+  private onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+  private _state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private probing = false;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeout = options.resetTimeout ?? 30000;
+    this.onStateChange = options.onStateChange;
+
+    if (!Number.isInteger(this.failureThreshold) || this.failureThreshold <= 0) {
+      throw new Error('failureThreshold must be a positive integer');
+    }
+  }
+
+  /** The current state of the circuit. */
+  get state(): CircuitState {
+    if (this._state === 'open' && Date.now() - this.openedAt >= this.resetTimeout) {
+      this.transition('half-open');
+    }
+    return this._state;
+  }
+
+  /** Number of consecutive failures counted towards opening the circuit. */
+  get consecutiveFailures(): number {
+    return this.failures;
+  }
+
+  /**
+   * Run `request` unless the circuit is open.
+   *
+   * @throws {SubtextCircuitOpenError} If the circuit is open, or half-open with a probe in flight
+   */
+  async execute<T>(request: () => Promise<T>): Promise<T> {
+    const state = this.state;
+    if (state === 'open' || (state === 'half-open' && this.probing)) {
+      throw new SubtextCircuitOpenError();
+    }
+
+    const isProbe = state === 'half-open';
+    this.probing = isProbe;
+
+    try {
+      const result = await request();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      // Errors the API returned on purpose, like validation errors, mean it's healthy
+      if (isSpoolableError(error)) {
+        this.recordFailure();
+      } else {
+        this.recordSuccess();
+      }
+      throw error;
+    } finally {
+      if (isProbe) {
+        this.probing = false;
+      }
+    }
+  }
+
+  /**
+   * Close the circuit and forget past failures.
+   */
+  reset(): void {
+    this.failures = 0;
+    this.probing = false;
+    this.transition('closed');
+  }
+
+  private recordSuccess(): void {
+    this.failures = 0;
+    this.transition('closed');
+  }
+
+  private recordFailure(): void {
+    this.failures += 1;
+    if (this._state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this._state;
+    if (previous === state) {
+      return;
+    }
+    this._state = state;
+    try {
+      this.onStateChange?.(state, previous);
+    } catch {
+      // Ignore errors from the callback
+    }
+  }
+}
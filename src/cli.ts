@@ -0,0 +1,352 @@
+#!/usr/bin/env node
+/**
+ * Command line interface for the Subtext SDK.
+ */
+
+import { createWriteStream, promises as fs, readFileSync } from 'fs';
+import * as path from 'path';
+import { parseArgs } from './args';
+import { SubtextClient } from './client';
+import { ExportFormat, exportThreads } from './export';
+import {
+  ImportConversation,
+  ImportFormat,
+  ImportSummary,
+  InvalidRecord,
+  detectFormat,
+  importConversations,
+  parseConversations,
+} from './import';
+import { ScriptedFailure, startMockServer } from './mock-server';
+
+export interface CliOutput {
+  log: (line: string) => void;
+  error: (line: string) => void;
+}
+
+type Command = (args: string[], output: CliOutput) => Promise<number>;
+
+const USAGE = `Usage: subtext <command> [options]
+
+Commands:
+  export         Export threads with their messages and runs
+  import         Import historical conversations from JSONL or CSV files
+  mock-server    Run a local mock of the Subtext API
+
+Run "subtext <command> --help" for the options of a command.`;
+
+const MOCK_SERVER_USAGE = `Usage: subtext mock-server [options]
+
+Options:
+  --port <port>       Port to listen on (default: 4010)
+  --host <host>       Host to listen on (default: 127.0.0.1)
+  --api-key <key>     Accepted API key. Repeat for several keys (default: any key)
+  --failures <file>   JSON file with an array of scripted failures
+  -h, --help          Show this help`;
+
+const IMPORT_USAGE = `Usage: subtext import [options] <file...>
+
+Options:
+  --format <format>       openai, jsonl, csv or export (default: detected per file)
+  --api-key <key>         Subtext API key (default: $SUBTEXT_API_KEY)
+  --base-url <url>        Subtext API URL, e.g. of a mock server
+  --concurrency <n>       Conversations imported at the same time (default: 4)
+  --checkpoint <file>     Record progress in this file and skip what it lists
+  --dry-run               Validate and count without sending anything
+  -h, --help              Show this help`;
+
+const EXPORT_USAGE = `Usage: subtext export [options]
+
+Options:
+  --format <format>         jsonl, csv or markdown (default: jsonl)
+  --output <file>           Write to this file (default: standard output)
+  --user <id>               Only export threads of this user
+  --created-after <date>    Only export threads created at or after this date
+  --created-before <date>   Only export threads created before this date
+  --thread <id>             Only export this thread. Repeat for several threads
+  --api-key <key>           Subtext API key (default: $SUBTEXT_API_KEY)
+  --base-url <url>          Subtext API URL, e.g. of a mock server
+  -h, --help                Show this help`;
+
+const FORMATS: ImportFormat[] = ['openai', 'jsonl', 'csv', 'export'];
+const EXPORT_FORMATS: ExportFormat[] = ['jsonl', 'csv', 'markdown'];
+
+function parsePort(value: string | undefined, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${value}`);
+  }
+  return port;
+}
+
+const mockServer: Command = async (args, output) => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      port: { type: 'string' },
+      host: { type: 'string' },
+      'api-key': { type: 'string', multiple: true },
+      failures: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    output.log(MOCK_SERVER_USAGE);
+    return 0;
+  }
+
+  const failures: ScriptedFailure[] = values.failures
+    ? JSON.parse(readFileSync(values.failures, 'utf8'))
+    : [];
+
+  const server = await startMockServer({
+    port: parsePort(values.port, 4010),
+    host: values.host,
+    apiKeys: values['api-key'],
+    failures,
+  });
+  output.log(`Mock Subtext API listening on ${server.url}`);
+
+  // Keep serving until the process is asked to stop
+  await new Promise<void>((resolve) => {
+    const stop = () => {
+      process.off('SIGINT', stop);
+      process.off('SIGTERM', stop);
+      resolve();
+    };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+  });
+  await server.close();
+  return 0;
+};
+
+function parsePositiveInteger(name: string, value: string | undefined, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return number;
+}
+
+function printImportSummary(summary: ImportSummary, invalid: InvalidRecord[], output: CliOutput): void {
+  const counts = `${summary.messages} messages, ${summary.runs} runs`;
+  if (summary.dryRun) {
+    output.log(`Dry run: would import ${summary.imported} of ${summary.conversations} conversations (${counts})`);
+  } else {
+    output.log(`Imported ${summary.imported} of ${summary.conversations} conversations (${counts})`);
+  }
+  if (summary.skipped > 0) {
+    output.log(`Skipped ${summary.skipped} conversations listed in the checkpoint`);
+  }
+
+  if (summary.failed > 0) {
+    output.error(`${summary.failed} conversations failed:`);
+    for (const [name, group] of Object.entries(summary.failures)) {
+      output.error(`  ${name}: ${group.count}`);
+      for (const example of group.examples) {
+        output.error(`    ${example.threadId} (${example.source}): ${example.message}`);
+      }
+    }
+  }
+  if (invalid.length > 0) {
+    output.error(`${invalid.length} records could not be read:`);
+    for (const record of invalid) {
+      output.error(`  ${record.source}: ${record.reason}`);
+    }
+  }
+}
+
+const importCommand: Command = async (args, output) => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string' },
+      'api-key': { type: 'string' },
+      'base-url': { type: 'string' },
+      concurrency: { type: 'string' },
+      checkpoint: { type: 'string' },
+      'dry-run': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    output.log(IMPORT_USAGE);
+    return 0;
+  }
+  if (positionals.length === 0) {
+    throw new Error('At least one file is required');
+  }
+  if (values.format !== undefined && !FORMATS.includes(values.format as ImportFormat)) {
+    throw new Error(`Invalid format: ${values.format}. Use one of ${FORMATS.join(', ')}`);
+  }
+  const concurrency = parsePositiveInteger('concurrency', values.concurrency, 4);
+  const dryRun = values['dry-run'] === true;
+  const apiKey = values['api-key'] || process.env.SUBTEXT_API_KEY;
+  if (!apiKey && !dryRun) {
+    throw new Error('An API key is required. Pass --api-key or set SUBTEXT_API_KEY');
+  }
+
+  const conversations: ImportConversation[] = [];
+  const invalid: InvalidRecord[] = [];
+  for (const file of positionals) {
+    const text = await fs.readFile(file, 'utf8');
+    const format = (values.format as ImportFormat | undefined) ?? detectFormat(file, text);
+    const parsed = parseConversations(text, format, path.basename(file));
+    conversations.push(...parsed.conversations);
+    invalid.push(...parsed.invalid);
+  }
+
+  const client = new SubtextClient({
+    apiKey: apiKey || 'dry-run',
+    baseUrl: values['base-url'],
+  });
+  try {
+    const summary = await importConversations(client, conversations, {
+      concurrency,
+      checkpointFile: values.checkpoint,
+      dryRun,
+      onProgress: ({ completed, total }) => {
+        if (completed % 100 === 0 && completed < total) {
+          output.log(`${completed}/${total} conversations`);
+        }
+      },
+    });
+    printImportSummary(summary, invalid, output);
+    return summary.failed > 0 || invalid.length > 0 ? 1 : 0;
+  } finally {
+    client.close();
+  }
+};
+
+/**
+ * Write to a file or standard output, waiting whenever the stream's buffer is full.
+ */
+function openOutput(file: string | undefined): { write: (chunk: string) => Promise<void>; close: () => Promise<void> } {
+  const stream = file ? createWriteStream(file) : process.stdout;
+  return {
+    write: (chunk) =>
+      new Promise((resolve, reject) => {
+        if (stream.write(chunk)) {
+          resolve();
+        } else {
+          stream.once('drain', resolve);
+          stream.once('error', reject);
+        }
+      }),
+    close: () =>
+      new Promise((resolve, reject) => {
+        if (stream === process.stdout) {
+          resolve();
+          return;
+        }
+        stream.once('error', reject);
+        stream.end(resolve);
+      }),
+  };
+}
+
+const exportCommand: Command = async (args, output) => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      format: { type: 'string' },
+      output: { type: 'string' },
+      user: { type: 'string' },
+      'created-after': { type: 'string' },
+      'created-before': { type: 'string' },
+      thread: { type: 'string', multiple: true },
+      'api-key': { type: 'string' },
+      'base-url': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    output.log(EXPORT_USAGE);
+    return 0;
+  }
+  const format = (values.format ?? 'jsonl') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new Error(`Invalid format: ${values.format}. Use one of ${EXPORT_FORMATS.join(', ')}`);
+  }
+  const apiKey = values['api-key'] || process.env.SUBTEXT_API_KEY;
+  if (!apiKey) {
+    throw new Error('An API key is required. Pass --api-key or set SUBTEXT_API_KEY');
+  }
+
+  const client = new SubtextClient({ apiKey, baseUrl: values['base-url'] });
+  const destination = openOutput(values.output);
+  try {
+    const summary = await exportThreads(client, {
+      format,
+      userId: values.user,
+      createdAfter: values['created-after'],
+      createdBefore: values['created-before'],
+      threadIds: values.thread,
+      write: destination.write,
+    });
+    // The export itself may go to standard output, so the summary goes to standard error
+    output.error(`Exported ${summary.threads} threads (${summary.messages} messages, ${summary.runs} runs)`);
+    if (summary.missingThreadIds.length > 0) {
+      output.error(`Threads not found: ${summary.missingThreadIds.join(', ')}`);
+      return 1;
+    }
+    return 0;
+  } finally {
+    await destination.close();
+    client.close();
+  }
+};
+
+const COMMANDS: Record<string, Command> = {
+  export: exportCommand,
+  import: importCommand,
+  'mock-server': mockServer,
+};
+
+/**
+ * Run the CLI.
+ *
+ * @param argv - Arguments after the executable, e.g. `["mock-server", "--port", "4010"]`
+ * @returns The exit code
+ */
+export async function main(
+  argv: string[] = process.argv.slice(2),
+  output: CliOutput = { log: console.log, error: console.error }
+): Promise<number> {
+  const [name, ...args] = argv;
+
+  if (!name || name === '--help' || name === '-h') {
+    output.log(USAGE);
+    return name ? 0 : 1;
+  }
+
+  const command = COMMANDS[name];
+  if (!command) {
+    output.error(`Unknown command: ${name}\n\n${USAGE}`);
+    return 1;
+  }
+
+  try {
+    return await command(args, output);
+  } catch (error) {
+    output.error(`Error: ${(error as Error).message}`);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  main().then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -2,7 +2,6 @@
  * Subtext API client.
  */
 
-import axios, { AxiosInstance, AxiosResponse, AxiosError } from 'axios';
 import {
   CreateMessageRequest,
   CreateRunRequest,
@@ -10,19 +9,52 @@ import {
   CreateThreadResponse,
   CreateMessageResponse,
   CreateRunResponse,
+  ConversationEntry,
+  ConversationOptions,
+  GetThreadResponse,
+  ListMessagesResponse,
+  ListRunsResponse,
+  ListThreadsResponse,
   Message,
+  NotSampled,
   Run,
+  RunMetadata,
   Thread,
+  ThreadNavigator,
+  UpdateThreadRequest,
+  UpdateThreadResponse,
 } from './models';
 import {
   SubtextAPIError,
   SubtextAuthenticationError,
+  SubtextConflictError,
   SubtextConnectionError,
   SubtextNotFoundError,
+  SubtextRateLimitError,
   SubtextServerError,
   SubtextTimeoutError,
   SubtextValidationError,
+  isSpoolableError,
 } from './exceptions';
+import { BatchItem, BatchOptions, BatchQueue, BatchResult } from './batch';
+import type { FileSpool, SpoolOptions } from './spool';
+import { Page, PageOptions, mergeSorted } from './pagination';
+import { CaptureStreamOptions, captureStream } from './stream';
+import { Session, SessionOptions } from './session';
+import { RetryOptions, RetryPolicy, parseRetryAfter } from './retry';
+import { RateLimitOptions, RateLimiter } from './rate-limiter';
+import { RedactOptions, RedactionReport, Redactor } from './redact';
+import { Middleware, MiddlewareStack, RequestContext, ResponseContext } from './middleware';
+import { Sampler, SamplingOptions } from './sampling';
+import { CircuitBreaker, CircuitBreakerOptions } from './circuit-breaker';
+import { randomUUID } from './uuid';
+import {
+  AxiosTransport,
+  Transport,
+  TransportConfig,
+  TransportError,
+  TransportResponse,
+} from './transport';
 
 export interface SubtextClientOptions {
   /** Your Subtext API key */
@@ -33,8 +65,262 @@ export interface SubtextClientOptions {
   timeout?: number;
   /** Maximum number of retries for failed requests (default: 3) */
   maxRetries?: number;
+  /** Which failures are retried and how long to wait between attempts (default: 429 and 5xx responses and network errors, with exponential backoff) */
+  retry?: RetryOptions;
+  /** Queue thread, message and run calls in memory and send them in batches (default: disabled) */
+  batch?: BatchOptions;
+  /** Save payloads that fail with connection, timeout or server errors to disk and replay them later (default: disabled) */
+  spool?: SpoolOptions;
+  /** Fail fast while the API keeps failing, instead of retrying every request (default: disabled) */
+  circuitBreaker?: CircuitBreakerOptions;
+  /** Throttle outgoing requests by rate and concurrency (default: disabled) */
+  rateLimit?: RateLimitOptions;
+  /** Remove personal data and secrets from message and run text before it is sent (default: disabled) */
+  redact?: RedactOptions;
+  /** Record only a deterministic sample of threads, and skip calls a filter rejects (default: record everything) */
+  sampling?: SamplingOptions;
+  /** Sends the HTTP requests. A function is called with the base URL, timeout and headers (default: axios) */
+  transport?: Transport | ((config: TransportConfig) => Transport);
+}
+
+/**
+ * Optional metadata about the LLM call behind a run.
+ */
+export interface RunMetadataOptions {
+  /** Model name, e.g. "gpt-4o" */
+  model?: string;
+  /** LLM provider, e.g. "openai" */
+  provider?: string;
+  /** Number of tokens in the prompt */
+  promptTokens?: number;
+  /** Number of tokens in the completion */
+  completionTokens?: number;
+  /** Total number of tokens (default: promptTokens + completionTokens) */
+  totalTokens?: number;
+  /** Duration of the LLM call in milliseconds (default: endedAt - startedAt) */
+  latencyMs?: number;
+  /** Milliseconds until the first token of a streamed response arrived */
+  timeToFirstTokenMs?: number;
+  /** When the LLM call started */
+  startedAt?: Date | string;
+  /** When the LLM call ended */
+  endedAt?: Date | string;
+  /** Sampling temperature, between 0 and 2 */
+  temperature?: number;
+  /** Nucleus sampling probability mass, between 0 and 1 */
+  topP?: number;
+  /** Top-k sampling cutoff */
+  topK?: number;
+  /** Maximum number of tokens requested */
+  maxTokens?: number;
+  /** Frequency penalty, between -2 and 2 */
+  frequencyPenalty?: number;
+  /** Presence penalty, between -2 and 2 */
+  presencePenalty?: number;
+  /** Why the model stopped generating, e.g. "stop" or "length" */
+  finishReason?: string;
+  /** Error message, if the LLM call failed */
+  error?: string;
+  /** Whether the response is incomplete, e.g. because a stream was aborted */
+  partial?: boolean;
+}
+
+export interface RunOptions extends RunMetadataOptions {
+  /** ID of the thread this run belongs to */
+  threadId: string;
+  /** Unique identifier for the run */
+  runId: string;
+  /** The LLM response content */
+  response: string;
+  /** ID of the user message this run responds to */
+  messageId?: string;
+  /** The thread's user ID, for the sampling filter. It is not sent to the API. */
+  userId?: string;
+  /** Key that identifies retries of this call to the API (default: a random UUID) */
+  idempotencyKey?: string;
+}
+
+export interface ListThreadsOptions extends PageOptions {
+  /** Only return threads belonging to this user */
+  userId?: string;
+  /** Only return threads created at or after this time */
+  createdAfter?: Date | string;
+  /** Only return threads created before this time */
+  createdBefore?: Date | string;
+  /** Only return threads modified at or after this time */
+  modifiedAfter?: Date | string;
+  /** Only return threads modified before this time */
+  modifiedBefore?: Date | string;
+}
+
+export interface UpdateThreadOptions {
+  /** New user ID for the thread */
+  userId?: string;
+  /** Custom metadata to attach to the thread */
+  metadata?: Record<string, any>;
+  /** Key that identifies retries of this call to the API (default: a random UUID) */
+  idempotencyKey?: string;
+}
+
+export interface DeleteUserDataProgress {
+  /** The thread that was just processed */
+  threadId: string;
+  /** Whether the thread was deleted, or had already been deleted */
+  deleted: boolean;
+  /** Number of threads processed so far */
+  completed: number;
+  /** Total number of threads found for the user */
+  total: number;
+}
+
+export interface DeleteUserDataOptions {
+  /** Called after each thread has been processed */
+  onProgress?: (progress: DeleteUserDataProgress) => void;
+}
+
+export interface DeleteUserDataResult {
+  /** Every thread found for the user */
+  threadIds: string[];
+  /** Number of threads deleted by this call */
+  deleted: number;
+  /** Number of threads that no longer existed when they were deleted */
+  notFound: number;
+  /** Threads that could not be deleted */
+  failures: Array<{ threadId: string; error: SubtextAPIError }>;
+}
+
+interface RequestOptions {
+  /** Query string parameters */
+  params?: Record<string, any>;
+  /** Idempotency key for a mutating request (default: a random UUID) */
+  idempotencyKey?: string;
+}
+
+function assertTokenCount(name: string, value: number | undefined): void {
+  if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+    throw new Error(`${name} must be a non-negative integer`);
+  }
+}
+
+function assertDuration(name: string, value: number | undefined): void {
+  if (value !== undefined && !(Number.isFinite(value) && value >= 0)) {
+    throw new Error(`${name} must be a non-negative number`);
+  }
+}
+
+function assertPositiveInteger(name: string, value: number | undefined): void {
+  if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+}
+
+function assertInRange(name: string, value: number | undefined, min: number, max: number): void {
+  if (value !== undefined && !(Number.isFinite(value) && value >= min && value <= max)) {
+    throw new Error(`${name} must be between ${min} and ${max}`);
+  }
+}
+
+function numericHeader(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function removeUndefined<T extends Record<string, any>>(value: T): T {
+  const result = { ...value };
+  for (const key of Object.keys(result) as Array<keyof T>) {
+    if (result[key] === undefined) {
+      delete result[key];
+    }
+  }
+  return result;
+}
+
+function toTimestamp(name: string, value: Date | string | undefined): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`${name} must be a valid date`);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Validate run metadata and convert it to the request format.
+ * Fields that weren't provided are left out of the result.
+ */
+function buildRunMetadata(options: RunMetadataOptions): RunMetadata {
+  assertTokenCount('promptTokens', options.promptTokens);
+  assertTokenCount('completionTokens', options.completionTokens);
+  assertTokenCount('totalTokens', options.totalTokens);
+  assertInRange('temperature', options.temperature, 0, 2);
+  assertInRange('topP', options.topP, 0, 1);
+  assertPositiveInteger('topK', options.topK);
+  assertPositiveInteger('maxTokens', options.maxTokens);
+  assertInRange('frequencyPenalty', options.frequencyPenalty, -2, 2);
+  assertInRange('presencePenalty', options.presencePenalty, -2, 2);
+
+  assertDuration('latencyMs', options.latencyMs);
+  assertDuration('timeToFirstTokenMs', options.timeToFirstTokenMs);
+
+  const startedAt = toTimestamp('startedAt', options.startedAt);
+  const endedAt = toTimestamp('endedAt', options.endedAt);
+  let latencyMs = options.latencyMs;
+
+  if (startedAt && endedAt) {
+    const duration = Date.parse(endedAt) - Date.parse(startedAt);
+    if (duration < 0) {
+      throw new Error('endedAt must not be before startedAt');
+    }
+    latencyMs = latencyMs ?? duration;
+  }
+
+  let totalTokens = options.totalTokens;
+  if (totalTokens === undefined && options.promptTokens !== undefined && options.completionTokens !== undefined) {
+    totalTokens = options.promptTokens + options.completionTokens;
+  }
+
+  return removeUndefined<RunMetadata>({
+    model: options.model,
+    provider: options.provider,
+    prompt_tokens: options.promptTokens,
+    completion_tokens: options.completionTokens,
+    total_tokens: totalTokens,
+    latency_ms: latencyMs,
+    time_to_first_token_ms: options.timeToFirstTokenMs,
+    started_at: startedAt,
+    ended_at: endedAt,
+    temperature: options.temperature,
+    top_p: options.topP,
+    top_k: options.topK,
+    max_tokens: options.maxTokens,
+    frequency_penalty: options.frequencyPenalty,
+    presence_penalty: options.presencePenalty,
+    finish_reason: options.finishReason,
+    error: options.error,
+    partial: options.partial,
+  });
 }
 
+/**
+ * The result of `thread()`, `message()` and `run()`. It includes `NotSampled`
+ * unless the client's options type rules out the `sampling` option, as it does
+ * for a client created from an object literal without `sampling`.
+ */
+export type SampledResult<T, Options> = Options extends Omit<SubtextClientOptions, 'sampling'> & { sampling?: undefined }
+  ? T
+  : T | NotSampled;
+
+/**
+ * Options of a client that samples. `SubtextClient<SamplingClientOptions>` accepts
+ * clients created with or without `sampling`.
+ */
+export type SamplingClientOptions = SubtextClientOptions & { sampling: SamplingOptions };
+
 /**
  * Client for interacting with the Subtext API.
  *
@@ -58,14 +344,23 @@ export interface SubtextClientOptions {
  * console.log(message.id);
  * ```
  */
-export class SubtextClient {
+export class SubtextClient<Options extends SubtextClientOptions = SubtextClientOptions> implements ThreadNavigator {
   private apiKey: string;
   private baseUrl: string;
   private timeout: number;
   private maxRetries: number;
-  private httpClient: AxiosInstance;
+  private transport: Transport;
+  private retryPolicy: RetryPolicy;
+  private breaker?: CircuitBreaker;
+  private rateLimiter?: RateLimiter;
+  private redactor?: Redactor;
+  private middleware = new MiddlewareStack();
+  private sampler?: Sampler;
+  private onRedact?: (report: RedactionReport) => void;
+  private batchQueue?: BatchQueue;
+  private fileSpool?: FileSpool;
 
-  constructor(options: SubtextClientOptions) {
+  constructor(options: Options) {
     if (!options.apiKey) {
       throw new Error('API key is required');
     }
@@ -73,80 +368,199 @@ export class SubtextClient {
     this.apiKey = options.apiKey;
     this.baseUrl = (options.baseUrl || 'https://app.trysubtext.com').replace(/\/$/, '');
     this.timeout = options.timeout || 30000;
-    this.maxRetries = options.maxRetries || 3;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryPolicy = new RetryPolicy(this.maxRetries, options.retry);
+    if (options.circuitBreaker) {
+      this.breaker = new CircuitBreaker(options.circuitBreaker);
+    }
+    if (options.rateLimit) {
+      this.rateLimiter = new RateLimiter(options.rateLimit);
+    }
+    if (options.sampling) {
+      this.sampler = new Sampler(options.sampling);
+    }
+    if (options.redact) {
+      this.redactor = new Redactor(options.redact);
+      this.onRedact = options.redact.onRedact;
+    }
 
-    // Set up axios instance with retry logic
-    this.httpClient = axios.create({
-      baseURL: this.baseUrl,
+    const transportConfig: TransportConfig = {
+      baseUrl: this.baseUrl,
       timeout: this.timeout,
       headers: {
         'Content-Type': 'application/json',
         'x-api-key': this.apiKey,
         'User-Agent': 'subtext-typescript/0.1.0',
       },
-    });
-
-    // Add retry interceptor
-    this.setupRetryInterceptor();
-  }
+    };
+    if (typeof options.transport === 'function') {
+      this.transport = options.transport(transportConfig);
+    } else {
+      this.transport = options.transport || new AxiosTransport(transportConfig);
+    }
 
-  private setupRetryInterceptor(): void {
-    this.httpClient.interceptors.response.use(
-      (response) => response,
-      async (error: AxiosError) => {
-        const config = error.config as any;
+    if (options.spool) {
+      // Loaded here, so the client also loads on runtimes without a file system
+      const { FileSpool } = require('./spool') as typeof import('./spool');
+      // Replayed payloads must not be spooled again, so the spool delivers directly
+      this.fileSpool = new FileSpool((item) => this.deliver(item), options.spool);
+    }
 
-        if (!config || config.__retryCount >= this.maxRetries) {
-          return Promise.reject(error);
-        }
+    if (options.batch) {
+      this.batchQueue = new BatchQueue((item) => this.deliverOrSpool(item), options.batch);
+    }
+  }
 
-        config.__retryCount = config.__retryCount || 0;
-        config.__retryCount += 1;
+  /**
+   * The on-disk spool, if one is configured.
+   *
+   * Use it to inspect spooled payloads with `entries()` or to replay them with `replay()`.
+   */
+  get spool(): FileSpool | undefined {
+    return this.fileSpool;
+  }
 
-        // Retry on specific status codes
-        const retryStatusCodes = [429, 500, 502, 503, 504];
-        if (error.response && retryStatusCodes.includes(error.response.status)) {
-          // Exponential backoff
-          const delay = Math.pow(2, config.__retryCount) * 1000;
-          await new Promise(resolve => setTimeout(resolve, delay));
-          return this.httpClient(config);
-        }
+  /**
+   * The circuit breaker, if one is configured.
+   *
+   * Use `state` to check whether requests are currently being sent.
+   */
+  get circuitBreaker(): CircuitBreaker | undefined {
+    return this.breaker;
+  }
 
-        return Promise.reject(error);
-      }
-    );
+  /**
+   * Register hooks that run around every request the client sends.
+   *
+   * Hooks run once per attempt, so a retried request passes through them again.
+   * `beforeRequest` may modify the payload, parameters and headers, or return
+   * `{ response }` to answer the request without sending it. `afterResponse` may
+   * modify the response body. `onError` sees the error of every failed attempt and
+   * may return `{ response }` to recover. Hooks of several `use()` calls run in
+   * registration order. They are kept when the client is closed.
+   *
+   * @param middleware - The hooks to register
+   * @returns A function that removes the hooks again
+   *
+   * @example
+   * ```typescript
+   * client.use({
+   *   beforeRequest: (context) => {
+   *     context.headers['X-Request-Source'] = 'checkout-service';
+   *   },
+   *   afterResponse: ({ method, endpoint, status, durationMs }) => {
+   *     console.log(`${method} ${endpoint} ${status} in ${durationMs}ms`);
+   *   }
+   * });
+   * ```
+   */
+  use(middleware: Middleware): () => void {
+    return this.middleware.use(middleware);
   }
 
   private async makeRequest<T>(
     method: 'GET' | 'POST' | 'PUT' | 'DELETE',
     endpoint: string,
-    data?: Record<string, any>
+    data?: Record<string, any>,
+    options: RequestOptions = {}
   ): Promise<T> {
-    try {
-      const response: AxiosResponse<T> = await this.httpClient.request({
+    // Generated once per call, so every retry of this request sends the same key
+    const baseHeaders: Record<string, string> = method === 'GET'
+      ? {}
+      : { 'Idempotency-Key': options.idempotencyKey || randomUUID() };
+    // Only failures of the HTTP request itself are mapped; errors thrown by hooks pass through
+    let transportError: unknown;
+
+    const attempt = async (attemptNumber: number): Promise<T> => {
+      const context: RequestContext = {
         method,
-        url: endpoint,
-        data,
-      });
+        endpoint,
+        payload: data && { ...data },
+        params: options.params,
+        headers: { ...baseHeaders },
+        attempt: attemptNumber,
+        startedAt: Date.now(),
+        state: {},
+      };
 
-      return response.data;
-    } catch (error) {
-      this.handleError(error as AxiosError);
-      throw error; // This line should never be reached due to handleError throwing
-    }
+      const answered = await this.middleware.beforeRequest(context);
+      if (answered) {
+        return answered.response as T;
+      }
+
+      const request = () =>
+        this.transport.request<T>({
+          method,
+          url: context.endpoint,
+          data: context.payload,
+          params: context.params,
+          headers: Object.keys(context.headers).length > 0 ? context.headers : undefined,
+        });
+
+      let response: TransportResponse<T>;
+      try {
+        // Every attempt, retries included, waits for its turn
+        response = await (this.rateLimiter ? this.rateLimiter.schedule(request) : request());
+      } catch (error) {
+        transportError = error;
+        const recovered = await this.middleware.onError({
+          ...context,
+          error: this.toSubtextError(error as TransportError),
+          durationMs: Date.now() - context.startedAt,
+        });
+        if (recovered) {
+          return recovered.response as T;
+        }
+        throw error;
+      }
+
+      const responseContext: ResponseContext = {
+        ...context,
+        response: response.data,
+        status: response.status,
+        durationMs: Date.now() - context.startedAt,
+      };
+      await this.middleware.afterResponse(responseContext);
+      return responseContext.response as T;
+    };
+
+    const send = async (): Promise<T> => {
+      try {
+        return await this.retryPolicy.execute(attempt);
+      } catch (error) {
+        if (error === transportError) {
+          this.handleError(error as TransportError);
+        }
+        throw error;
+      }
+    };
+
+    // The breaker sees each call once, after its retries, and skips them entirely while open
+    return this.breaker ? this.breaker.execute(send) : send();
   }
 
-  private handleError(error: AxiosError): never {
+  private handleError(error: TransportError): never {
+    throw this.toSubtextError(error);
+  }
+
+  /**
+   * Map a failed HTTP request to the matching `SubtextAPIError` subclass.
+   */
+  private toSubtextError(error: TransportError): SubtextAPIError {
+    if (error instanceof SubtextAPIError) {
+      return error;
+    }
+
     if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
-      throw new SubtextTimeoutError(`Request to ${error.config?.url} timed out`);
+      return new SubtextTimeoutError(`Request to ${error.config?.url} timed out`);
     }
 
     if (error.code === 'ECONNREFUSED' || error.code === 'ENOTFOUND') {
-      throw new SubtextConnectionError(`Failed to connect to ${error.config?.url}`);
+      return new SubtextConnectionError(`Failed to connect to ${error.config?.url}`);
     }
 
     if (!error.response) {
-      throw new SubtextConnectionError(`Request failed: ${error.message}`);
+      return new SubtextConnectionError(`Request failed: ${error.message}`);
     }
 
     const status = error.response.status;
@@ -154,28 +568,46 @@ export class SubtextClient {
 
     switch (status) {
       case 401:
-        throw new SubtextAuthenticationError();
+        return new SubtextAuthenticationError();
       case 400:
-        throw new SubtextValidationError(
+        return new SubtextValidationError(
           errorData.error || 'Validation error',
           errorData
         );
       case 404:
-        throw new SubtextNotFoundError(
+        return new SubtextNotFoundError(
           errorData.error || 'Resource not found',
           errorData
         );
+      case 409:
+        return new SubtextConflictError(
+          errorData.error || 'Conflict',
+          errorData
+        );
+      case 429: {
+        const headers = error.response.headers || {};
+        return new SubtextRateLimitError(
+          errorData.error || 'Rate limit exceeded',
+          {
+            retryAfter: parseRetryAfter(headers['retry-after']),
+            limit: numericHeader(headers['x-ratelimit-limit']),
+            remaining: numericHeader(headers['x-ratelimit-remaining']),
+            reset: numericHeader(headers['x-ratelimit-reset']),
+          },
+          errorData
+        );
+      }
       case 500:
       case 502:
       case 503:
       case 504:
-        throw new SubtextServerError(
+        return new SubtextServerError(
           errorData.error || 'Internal server error',
           status,
           errorData
         );
       default:
-        throw new SubtextAPIError(
+        return new SubtextAPIError(
           errorData.error || `HTTP ${status}`,
           status,
           errorData
@@ -183,19 +615,128 @@ export class SubtextClient {
     }
   }
 
-  private parseErrorResponse(response: AxiosResponse): Record<string, any> {
+  private parseErrorResponse(response: TransportResponse): Record<string, any> {
+    return response.data || {};
+  }
+
+  /**
+   * Apply the configured redaction to a message or response text.
+   */
+  private redactText(field: RedactionReport['field'], threadId: string, text: string): string {
+    if (!this.redactor) {
+      return text;
+    }
+
+    const { text: redacted, counts } = this.redactor.redact(text);
+    const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    if (total > 0) {
+      try {
+        this.onRedact?.({ field, threadId, counts, total });
+      } catch {
+        // Ignore errors from the callback
+      }
+    }
+    return redacted;
+  }
+
+  /**
+   * Send an item right away, or hand it to the batch queue when batching is enabled.
+   */
+  private dispatch<T extends BatchResult>(item: BatchItem): Promise<T> {
+    if (this.batchQueue) {
+      return this.batchQueue.enqueue<T>(item);
+    }
+    return this.deliverOrSpool(item) as Promise<T>;
+  }
+
+  /**
+   * Deliver an item, saving it to the spool if it fails with a transient error.
+   * The original error is still thrown.
+   */
+  private async deliverOrSpool(item: BatchItem): Promise<BatchResult> {
+    try {
+      return await this.deliver(item);
+    } catch (error) {
+      if (this.fileSpool && isSpoolableError(error)) {
+        // A failing spool write must not hide the original error
+        await this.fileSpool.append(item).catch(() => false);
+      }
+      throw error;
+    }
+  }
+
+  private async deliver(item: BatchItem): Promise<BatchResult> {
+    const options = { idempotencyKey: item.idempotencyKey };
+    switch (item.kind) {
+      case 'thread': {
+        const responseData = await this.postIdempotent<CreateThreadResponse>(
+          '/api/threads',
+          item.payload,
+          options
+        );
+        return new Thread(this.unwrapData(responseData), this);
+      }
+      case 'message': {
+        const responseData = await this.postIdempotent<CreateMessageResponse>(
+          '/api/messages',
+          item.payload,
+          options
+        );
+        return new Message(this.unwrapData(responseData));
+      }
+      case 'run': {
+        const responseData = await this.postIdempotent<CreateRunResponse>(
+          '/api/runs',
+          item.payload,
+          options
+        );
+        return new Run(this.unwrapData(responseData));
+      }
+    }
+  }
+
+  /**
+   * POST a create request. If the API reports a conflict because the idempotency
+   * key was already used, resolve to the resource created by the first attempt.
+   *
+   * Only a conflict that echoes this request's key in `idempotency_key` is a
+   * replay; any other conflict, such as a duplicate ID, is thrown.
+   */
+  private async postIdempotent<T extends { data: any }>(
+    endpoint: string,
+    data: Record<string, any>,
+    options: RequestOptions
+  ): Promise<T> {
     try {
-      return response.data || {};
-    } catch {
-      return { error: response.statusText || `HTTP ${response.status}` };
+      return await this.makeRequest<T>('POST', endpoint, data, options);
+    } catch (error) {
+      if (
+        error instanceof SubtextConflictError &&
+        options.idempotencyKey !== undefined &&
+        error.responseData?.idempotency_key === options.idempotencyKey &&
+        error.responseData.data
+      ) {
+        return { data: error.responseData.data } as T;
+      }
+      throw error;
     }
   }
 
+  private unwrapData<T>(responseData: { data: T }): T {
+    // Validate response structure
+    if (!responseData.data) {
+      throw new SubtextAPIError('Invalid response format: missing "data" field', 200);
+    }
+    return responseData.data;
+  }
+
   /**
    * Create a new thread.
    *
    * @param options - Thread creation options
-   * @returns Promise that resolves to the created thread object
+   * @returns Promise that resolves to the created thread object. With batching enabled it
+   *   resolves once the batch containing this call has been delivered. With sampling
+   *   configured, resolves to `NotSampled` without sending anything if sampling skipped the call.
    *
    * @throws {SubtextValidationError} If required fields are missing or invalid
    * @throws {SubtextAuthenticationError} If the API key is invalid
@@ -211,35 +752,39 @@ export class SubtextClient {
    * });
    * ```
    */
-  async thread(options: { threadId: string; userId?: string }): Promise<Thread> {
+  async thread(options: {
+    threadId: string;
+    userId?: string;
+    idempotencyKey?: string;
+  }): Promise<SampledResult<Thread, Options>> {
     if (!options.threadId) {
       throw new Error('threadId is required');
     }
 
+    const skipped = this.sampler?.check({ kind: 'thread', threadId: options.threadId, userId: options.userId });
+    if (skipped) {
+      return skipped as SampledResult<Thread, Options>;
+    }
+
     const requestData: CreateThreadRequest = {
       thread_id: options.threadId,
       user_id: options.userId,
     };
 
-    const responseData = await this.makeRequest<CreateThreadResponse>(
-      'POST',
-      '/api/threads',
-      requestData
-    );
-
-    // Validate response structure
-    if (!responseData.data) {
-      throw new SubtextAPIError('Invalid response format: missing "data" field', 200);
-    }
-
-    return new Thread(responseData.data);
+    return this.dispatch<Thread>({
+      kind: 'thread',
+      payload: requestData,
+      idempotencyKey: options.idempotencyKey || randomUUID(),
+    }) as Promise<SampledResult<Thread, Options>>;
   }
 
   /**
    * Create a new user message.
    *
    * @param options - Message creation options
-   * @returns Promise that resolves to the created message object
+   * @returns Promise that resolves to the created message object. With batching enabled it
+   *   resolves once the batch containing this call has been delivered. With sampling
+   *   configured, resolves to `NotSampled` without sending anything if sampling skipped the call.
    *
    * @throws {SubtextValidationError} If required fields are missing or invalid
    * @throws {SubtextAuthenticationError} If the API key is invalid
@@ -261,7 +806,9 @@ export class SubtextClient {
     threadId: string;
     message: string;
     messageId: string;
-  }): Promise<Message> {
+    userId?: string;
+    idempotencyKey?: string;
+  }): Promise<SampledResult<Message, Options>> {
     if (!options.threadId) {
       throw new Error('threadId is required');
     }
@@ -272,31 +819,37 @@ export class SubtextClient {
       throw new Error('messageId is required');
     }
 
+    const skipped = this.sampler?.check({
+      kind: 'message',
+      threadId: options.threadId,
+      userId: options.userId,
+      content: options.message,
+    });
+    if (skipped) {
+      return skipped as SampledResult<Message, Options>;
+    }
+
     const requestData: CreateMessageRequest = {
       thread_id: options.threadId,
-      message: options.message,
+      message: this.redactText('message', options.threadId, options.message),
       message_id: options.messageId,
     };
 
-    const responseData = await this.makeRequest<CreateMessageResponse>(
-      'POST',
-      '/api/messages',
-      requestData
-    );
-
-    // Validate response structure
-    if (!responseData.data) {
-      throw new SubtextAPIError('Invalid response format: missing "data" field', 200);
-    }
-
-    return new Message(responseData.data);
+    return this.dispatch<Message>({
+      kind: 'message',
+      payload: requestData,
+      idempotencyKey: options.idempotencyKey || randomUUID(),
+    }) as Promise<SampledResult<Message, Options>>;
   }
 
   /**
    * Create a new run record for LLM calls.
    *
-   * @param options - Run creation options
-   * @returns Promise that resolves to the created run object
+   * @param options - Run creation options, optionally with model, token usage, timing
+   *   and sampling metadata
+   * @returns Promise that resolves to the created run object. With batching enabled it
+   *   resolves once the batch containing this call has been delivered. With sampling
+   *   configured, resolves to `NotSampled` without sending anything if sampling skipped the call.
    *
    * @throws {SubtextValidationError} If required fields are missing or invalid
    * @throws {SubtextAuthenticationError} If the API key is invalid
@@ -310,15 +863,15 @@ export class SubtextClient {
    * const run = await client.run({
    *   threadId: "thread-123",
    *   runId: "run-456",
-   *   response: "Hello! How can I help you?"
+   *   response: "Hello! How can I help you?",
+   *   model: "gpt-4o",
+   *   promptTokens: 12,
+   *   completionTokens: 8,
+   *   latencyMs: 640
    * });
    * ```
    */
-  async run(options: {
-    threadId: string;
-    runId: string;
-    response: string;
-  }): Promise<Run> {
+  async run(options: RunOptions): Promise<SampledResult<Run, Options>> {
     if (!options.threadId) {
       throw new Error('threadId is required');
     }
@@ -329,32 +882,495 @@ export class SubtextClient {
       throw new Error('response is required');
     }
 
+    const skipped = this.sampler?.check({
+      kind: 'run',
+      threadId: options.threadId,
+      userId: options.userId,
+      content: options.response,
+    });
+    if (skipped) {
+      return skipped as SampledResult<Run, Options>;
+    }
+
     const requestData: CreateRunRequest = {
       thread_id: options.threadId,
       run_id: options.runId,
-      response: options.response,
+      response: this.redactText('response', options.threadId, options.response),
+      message_id: options.messageId,
+      ...buildRunMetadata(options),
+    };
+
+    return this.dispatch<Run>({
+      kind: 'run',
+      payload: requestData,
+      idempotencyKey: options.idempotencyKey || randomUUID(),
+    }) as Promise<SampledResult<Run, Options>>;
+  }
+
+  /**
+   * Pass an LLM stream through unchanged and record it as a run once it ends.
+   *
+   * Chunks reach the caller exactly as the stream produces them. When the stream
+   * completes, the accumulated text is recorded with the time to first token and
+   * the total duration. If the stream is aborted or throws, the text received so
+   * far is recorded as a partial run. Recording happens in the background; use
+   * `onRun` and `onError` to observe it.
+   *
+   * @param stream - The stream to capture
+   * @param options - Run options, plus an optional `extractText` for custom chunk shapes
+   * @returns An async iterable with the same type as `stream`
+   *
+   * @example
+   * ```typescript
+   * const stream = await openai.chat.completions.create({ model: "gpt-4o", messages, stream: true });
+   * for await (const chunk of client.captureStream(stream, { threadId: "thread-123", runId: "run-456" })) {
+   *   process.stdout.write(chunk.choices[0]?.delta?.content ?? "");
+   * }
+   * ```
+   */
+  captureStream<I extends AsyncIterable<any>>(
+    stream: I,
+    options: CaptureStreamOptions<I extends AsyncIterable<infer T> ? T : never>
+  ): I {
+    return captureStream(this, stream, options);
+  }
+
+  /**
+   * Start a conversation session bound to a single thread.
+   *
+   * The session creates its thread on first use, generates message and run IDs,
+   * and links each run to the last user message it recorded.
+   *
+   * @param options - Session options. Without a `threadId`, a new one is generated.
+   * @returns A new session
+   *
+   * @example
+   * ```typescript
+   * const session = client.session({ userId: "user-456" });
+   * await session.userMessage("Hello!");
+   * await session.assistantRun("Hi! How can I help?", { model: "gpt-4o" });
+   * ```
+   */
+  session(options: SessionOptions = {}): Session<Options> {
+    return new Session<Options>(this, options);
+  }
+
+  /**
+   * Retrieve a thread by its ID.
+   *
+   * @param threadId - The user-provided thread ID
+   * @returns Promise that resolves to the thread object
+   *
+   * @throws {SubtextAuthenticationError} If the API key is invalid
+   * @throws {SubtextNotFoundError} If the thread doesn't exist
+   * @throws {SubtextServerError} If there's a server error
+   * @throws {SubtextConnectionError} If there's a connection error
+   * @throws {SubtextTimeoutError} If the request times out
+   *
+   * @example
+   * ```typescript
+   * const thread = await client.getThread("thread-123");
+   * ```
+   */
+  async getThread(threadId: string): Promise<Thread> {
+    if (!threadId) {
+      throw new Error('threadId is required');
+    }
+
+    const responseData = await this.makeRequest<GetThreadResponse>(
+      'GET',
+      `/api/threads/${encodeURIComponent(threadId)}`
+    );
+
+    return new Thread(this.unwrapData(responseData), this);
+  }
+
+  /**
+   * List threads, optionally filtered by user and time range.
+   *
+   * @param options - Filters and pagination options
+   * @returns Promise that resolves to the first page of threads. Iterate the page
+   *   with `for await` to walk through every matching thread.
+   *
+   * @throws {SubtextValidationError} If a filter is invalid
+   * @throws {SubtextAuthenticationError} If the API key is invalid
+   * @throws {SubtextServerError} If there's a server error
+   * @throws {SubtextConnectionError} If there's a connection error
+   * @throws {SubtextTimeoutError} If the request times out
+   *
+   * @example
+   * ```typescript
+   * const page = await client.listThreads({
+   *   userId: "user-456",
+   *   createdAfter: new Date("2024-01-01")
+   * });
+   * for await (const thread of page) {
+   *   console.log(thread.threadId);
+   * }
+   * ```
+   */
+  async listThreads(options: ListThreadsOptions = {}): Promise<Page<Thread>> {
+    assertPositiveInteger('limit', options.limit);
+
+    const params = {
+      user_id: options.userId,
+      created_after: toTimestamp('createdAfter', options.createdAfter),
+      created_before: toTimestamp('createdBefore', options.createdBefore),
+      modified_after: toTimestamp('modifiedAfter', options.modifiedAfter),
+      modified_before: toTimestamp('modifiedBefore', options.modifiedBefore),
+      limit: options.limit,
+      cursor: options.cursor,
     };
 
-    const responseData = await this.makeRequest<CreateRunResponse>(
-      'POST',
-      '/api/runs',
-      requestData
+    const responseData = await this.makeRequest<ListThreadsResponse>(
+      'GET',
+      '/api/threads',
+      undefined,
+      { params: removeUndefined(params) }
     );
 
-    // Validate response structure
-    if (!responseData.data) {
-      throw new SubtextAPIError('Invalid response format: missing "data" field', 200);
+    return new Page(
+      this.unwrapData(responseData).map((data) => new Thread(data, this)),
+      responseData.next_cursor,
+      (cursor) => this.listThreads({ ...options, cursor })
+    );
+  }
+
+  /**
+   * List the messages in a thread, oldest first.
+   *
+   * @param threadId - The user-provided thread ID
+   * @param options - Pagination options
+   * @returns Promise that resolves to the first page of messages
+   *
+   * @throws {SubtextAuthenticationError} If the API key is invalid
+   * @throws {SubtextNotFoundError} If the thread doesn't exist
+   * @throws {SubtextServerError} If there's a server error
+   * @throws {SubtextConnectionError} If there's a connection error
+   * @throws {SubtextTimeoutError} If the request times out
+   *
+   * @example
+   * ```typescript
+   * for await (const message of await client.listMessages("thread-123")) {
+   *   console.log(message.message);
+   * }
+   * ```
+   */
+  async listMessages(threadId: string, options: PageOptions = {}): Promise<Page<Message>> {
+    const responseData = await this.listThreadResource<ListMessagesResponse>(
+      threadId,
+      'messages',
+      options
+    );
+
+    return new Page(
+      this.unwrapData(responseData).map((data) => new Message(data)),
+      responseData.next_cursor,
+      (cursor) => this.listMessages(threadId, { ...options, cursor })
+    );
+  }
+
+  /**
+   * List the runs in a thread, oldest first.
+   *
+   * @param threadId - The user-provided thread ID
+   * @param options - Pagination options
+   * @returns Promise that resolves to the first page of runs
+   *
+   * @throws {SubtextAuthenticationError} If the API key is invalid
+   * @throws {SubtextNotFoundError} If the thread doesn't exist
+   * @throws {SubtextServerError} If there's a server error
+   * @throws {SubtextConnectionError} If there's a connection error
+   * @throws {SubtextTimeoutError} If the request times out
+   *
+   * @example
+   * ```typescript
+   * const page = await client.listRuns("thread-123", { limit: 20 });
+   * console.log(page.data.map((run) => run.response));
+   * ```
+   */
+  async listRuns(threadId: string, options: PageOptions = {}): Promise<Page<Run>> {
+    const responseData = await this.listThreadResource<ListRunsResponse>(
+      threadId,
+      'runs',
+      options
+    );
+
+    return new Page(
+      this.unwrapData(responseData).map((data) => new Run(data)),
+      responseData.next_cursor,
+      (cursor) => this.listRuns(threadId, { ...options, cursor })
+    );
+  }
+
+  /**
+   * Iterate the messages and runs in a thread, interleaved by creation time.
+   *
+   * Messages and runs are fetched page by page as the iteration advances.
+   *
+   * @param threadId - The user-provided thread ID
+   * @param options - Conversation options
+   * @returns Async iterable of `Message` and `Run` objects
+   *
+   * @throws {SubtextNotFoundError} If the thread doesn't exist
+   *
+   * @example
+   * ```typescript
+   * for await (const entry of client.getConversation("thread-123")) {
+   *   if (entry instanceof Message) {
+   *     console.log(`User: ${entry.message}`);
+   *   } else {
+   *     console.log(`Assistant: ${entry.response}`);
+   *   }
+   * }
+   * ```
+   */
+  async *getConversation(
+    threadId: string,
+    options: ConversationOptions = {}
+  ): AsyncGenerator<ConversationEntry> {
+    const pageOptions = { limit: options.pageSize };
+    const [messages, runs] = await Promise.all([
+      this.listMessages(threadId, pageOptions),
+      this.listRuns(threadId, pageOptions),
+    ]);
+
+    yield* mergeSorted<Message, Run>(
+      messages,
+      runs,
+      (a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt)
+    );
+  }
+
+  private listThreadResource<T>(
+    threadId: string,
+    resource: 'messages' | 'runs',
+    options: PageOptions
+  ): Promise<T> {
+    if (!threadId) {
+      throw new Error('threadId is required');
+    }
+    assertPositiveInteger('limit', options.limit);
+
+    return this.makeRequest<T>(
+      'GET',
+      `/api/threads/${encodeURIComponent(threadId)}/${resource}`,
+      undefined,
+      { params: removeUndefined({ limit: options.limit, cursor: options.cursor }) }
+    );
+  }
+
+  /**
+   * Update a thread's user ID or metadata.
+   *
+   * @param threadId - The user-provided thread ID
+   * @param options - The fields to update
+   * @returns Promise that resolves to the updated thread object
+   *
+   * @throws {SubtextValidationError} If the update is invalid
+   * @throws {SubtextAuthenticationError} If the API key is invalid
+   * @throws {SubtextNotFoundError} If the thread doesn't exist
+   * @throws {SubtextServerError} If there's a server error
+   * @throws {SubtextConnectionError} If there's a connection error
+   * @throws {SubtextTimeoutError} If the request times out
+   *
+   * @example
+   * ```typescript
+   * const thread = await client.updateThread("thread-123", {
+   *   userId: "user-456",
+   *   metadata: { plan: "pro" }
+   * });
+   * ```
+   */
+  async updateThread(threadId: string, options: UpdateThreadOptions): Promise<Thread> {
+    if (!threadId) {
+      throw new Error('threadId is required');
+    }
+    if (options.userId === undefined && options.metadata === undefined) {
+      throw new Error('userId or metadata is required');
+    }
+
+    const requestData: UpdateThreadRequest = removeUndefined({
+      user_id: options.userId,
+      metadata: options.metadata,
+    });
+
+    const responseData = await this.makeRequest<UpdateThreadResponse>(
+      'PUT',
+      `/api/threads/${encodeURIComponent(threadId)}`,
+      requestData,
+      { idempotencyKey: options.idempotencyKey }
+    );
+
+    return new Thread(this.unwrapData(responseData), this);
+  }
+
+  /**
+   * Delete a thread along with its messages and runs.
+   *
+   * Deleting a thread that doesn't exist is not an error, so repeated deletes are safe.
+   *
+   * @param threadId - The user-provided thread ID
+   * @returns Promise that resolves to true if the thread was deleted, or false if it didn't exist
+   *
+   * @throws {SubtextAuthenticationError} If the API key is invalid
+   * @throws {SubtextServerError} If there's a server error
+   * @throws {SubtextConnectionError} If there's a connection error
+   * @throws {SubtextTimeoutError} If the request times out
+   */
+  async deleteThread(threadId: string): Promise<boolean> {
+    if (!threadId) {
+      throw new Error('threadId is required');
+    }
+    return this.deleteResource(`/api/threads/${encodeURIComponent(threadId)}`);
+  }
+
+  /**
+   * Delete a message.
+   *
+   * Deleting a message that doesn't exist is not an error, so repeated deletes are safe.
+   *
+   * @param messageId - The user-provided message ID
+   * @returns Promise that resolves to true if the message was deleted, or false if it didn't exist
+   *
+   * @throws {SubtextAuthenticationError} If the API key is invalid
+   * @throws {SubtextServerError} If there's a server error
+   * @throws {SubtextConnectionError} If there's a connection error
+   * @throws {SubtextTimeoutError} If the request times out
+   */
+  async deleteMessage(messageId: string): Promise<boolean> {
+    if (!messageId) {
+      throw new Error('messageId is required');
+    }
+    return this.deleteResource(`/api/messages/${encodeURIComponent(messageId)}`);
+  }
+
+  /**
+   * Delete a run.
+   *
+   * Deleting a run that doesn't exist is not an error, so repeated deletes are safe.
+   *
+   * @param runId - The user-provided run ID
+   * @returns Promise that resolves to true if the run was deleted, or false if it didn't exist
+   *
+   * @throws {SubtextAuthenticationError} If the API key is invalid
+   * @throws {SubtextServerError} If there's a server error
+   * @throws {SubtextConnectionError} If there's a connection error
+   * @throws {SubtextTimeoutError} If the request times out
+   */
+  async deleteRun(runId: string): Promise<boolean> {
+    if (!runId) {
+      throw new Error('runId is required');
+    }
+    return this.deleteResource(`/api/runs/${encodeURIComponent(runId)}`);
+  }
+
+  /**
+   * Delete every thread belonging to a user, for example to honor an erasure request.
+   *
+   * All of the user's threads are collected first and then deleted one by one.
+   * A failure to delete one thread doesn't stop the others; failed threads are
+   * listed in the result so the call can be repeated until nothing is left.
+   *
+   * @param userId - The user whose data should be deleted
+   * @param options - Progress reporting options
+   * @returns Promise that resolves to a summary of the deletion
+   *
+   * @throws {SubtextAuthenticationError} If the API key is invalid
+   * @throws {SubtextServerError} If listing the user's threads fails
+   *
+   * @example
+   * ```typescript
+   * const result = await client.deleteUserData("user-456", {
+   *   onProgress: ({ completed, total }) => console.log(`${completed}/${total}`)
+   * });
+   * if (result.failures.length > 0) {
+   *   // Retry later
+   * }
+   * ```
+   */
+  async deleteUserData(
+    userId: string,
+    options: DeleteUserDataOptions = {}
+  ): Promise<DeleteUserDataResult> {
+    if (!userId) {
+      throw new Error('userId is required');
     }
 
-    return new Run(responseData.data);
+    // Collect the IDs up front so deletions don't shift the pagination cursor
+    const threadIds: string[] = [];
+    for await (const thread of await this.listThreads({ userId })) {
+      threadIds.push(thread.threadId);
+    }
+
+    const result: DeleteUserDataResult = { threadIds, deleted: 0, notFound: 0, failures: [] };
+
+    for (const [index, threadId] of threadIds.entries()) {
+      let deleted = false;
+      try {
+        deleted = await this.deleteThread(threadId);
+        if (deleted) {
+          result.deleted += 1;
+        } else {
+          result.notFound += 1;
+        }
+      } catch (error) {
+        const apiError = error instanceof SubtextAPIError
+          ? error
+          : new SubtextAPIError((error as Error).message);
+        result.failures.push({ threadId, error: apiError });
+      }
+
+      options.onProgress?.({
+        threadId,
+        deleted,
+        completed: index + 1,
+        total: threadIds.length,
+      });
+    }
+
+    return result;
+  }
+
+  private async deleteResource(endpoint: string): Promise<boolean> {
+    try {
+      await this.makeRequest('DELETE', endpoint);
+      return true;
+    } catch (error) {
+      if (error instanceof SubtextNotFoundError) {
+        return false;
+      }
+      throw error;
+    }
   }
 
   /**
-   * Close the HTTP client and clean up resources.
+   * Send every call that is waiting in the batch queue.
+   *
+   * Resolves immediately when batching is disabled.
+   *
+   * @example
+   * ```typescript
+   * await client.flush();
+   * client.close();
+   * ```
+   */
+  async flush(): Promise<void> {
+    if (this.batchQueue) {
+      await this.batchQueue.flush();
+    }
+  }
+
+  /**
+   * Close the transport and clean up resources.
+   *
+   * Requests waiting for the rate limiter and calls still waiting in the batch
+   * queue are rejected without being sent; call `flush()` first.
    */
   close(): void {
-    // Axios doesn't require explicit cleanup, but we can clear interceptors
-    this.httpClient.interceptors.request.clear();
-    this.httpClient.interceptors.response.clear();
+    this.batchQueue?.stop();
+    this.fileSpool?.stop();
+    this.rateLimiter?.close();
+    this.transport.close?.();
   }
 }
@@ -62,6 +62,46 @@ export class SubtextNotFoundError extends SubtextAPIError {
   }
 }
 
+/**
+ * Exception raised when a request conflicts with an existing resource.
+ */
+export class SubtextConflictError extends SubtextAPIError {
+  constructor(
+    message: string = 'Conflict',
+    responseData?: Record<string, any>
+  ) {
+    super(message, 409, responseData);
+    this.name = 'SubtextConflictError';
+  }
+}
+
+/**
+ * Exception raised when the API rejects a request because of rate limiting.
+ */
+export class SubtextRateLimitError extends SubtextAPIError {
+  /** Milliseconds to wait before retrying, from the Retry-After header */
+  public retryAfter?: number;
+  /** Request limit for the current window, from the X-RateLimit-Limit header */
+  public limit?: number;
+  /** Requests left in the current window, from the X-RateLimit-Remaining header */
+  public remaining?: number;
+  /** When the current window resets, from the X-RateLimit-Reset header */
+  public reset?: number;
+
+  constructor(
+    message: string = 'Rate limit exceeded',
+    options: { retryAfter?: number; limit?: number; remaining?: number; reset?: number } = {},
+    responseData?: Record<string, any>
+  ) {
+    super(message, 429, responseData);
+    this.name = 'SubtextRateLimitError';
+    this.retryAfter = options.retryAfter;
+    this.limit = options.limit;
+    this.remaining = options.remaining;
+    this.reset = options.reset;
+  }
+}
+
 /**
  * Exception raised when there's a server error.
  */
@@ -86,6 +126,16 @@ export class SubtextConnectionError extends SubtextAPIError {
   }
 }
 
+/**
+ * Exception raised when a request is not sent because the circuit breaker is open.
+ */
+export class SubtextCircuitOpenError extends SubtextConnectionError {
+  constructor(message: string = 'Circuit breaker is open; request not sent') {
+    super(message);
+    this.name = 'SubtextCircuitOpenError';
+  }
+}
+
 /**
  * Exception raised when a request times out.
  */
@@ -95,3 +145,14 @@ export class SubtextTimeoutError extends SubtextAPIError {
     this.name = 'SubtextTimeoutError';
   }
 }
+
+/**
+ * Whether an error is transient, meaning the payload should be spooled for a later retry.
+ */
+export function isSpoolableError(error: unknown): boolean {
+  return (
+    error instanceof SubtextConnectionError ||
+    error instanceof SubtextTimeoutError ||
+    error instanceof SubtextServerError
+  );
+}
@@ -0,0 +1,294 @@
+/**
+ * Export of threads with their messages and runs.
+ */
+
+import { SubtextClient } from './client';
+import { formatCsvRow } from './csv';
+import { SubtextNotFoundError } from './exceptions';
+import { Message, Run, Thread } from './models';
+
+/**
+ * `jsonl`: one thread per line, as `{ thread, messages, runs }` in the `toDict()` shapes.
+ * `csv`: one message or run per row, in the columns `subtext import` reads.
+ * `markdown`: a readable transcript per thread.
+ */
+export type ExportFormat = 'jsonl' | 'csv' | 'markdown';
+
+export interface ExportFilters {
+  /** Only export threads belonging to this user */
+  userId?: string;
+  /** Only export threads created at or after this time */
+  createdAfter?: Date | string;
+  /** Only export threads created before this time */
+  createdBefore?: Date | string;
+  /** Only export these threads */
+  threadIds?: string[];
+}
+
+export interface ExportOptions extends ExportFilters {
+  /** Output format (default: 'jsonl') */
+  format?: ExportFormat;
+  /** Receives the output in chunks, in order. May return a promise to apply backpressure. */
+  write: (chunk: string) => void | Promise<void>;
+  /** Number of threads, messages and runs fetched per request */
+  pageSize?: number;
+  /** Called after each thread was written */
+  onProgress?: (thread: ExportedThread) => void;
+}
+
+export interface ExportedThread {
+  thread: Thread;
+  /** The thread's messages, oldest first */
+  messages: Message[];
+  /** The thread's runs, oldest first */
+  runs: Run[];
+}
+
+export interface ExportSummary {
+  threads: number;
+  messages: number;
+  runs: number;
+  /** Requested thread IDs that don't exist */
+  missingThreadIds: string[];
+}
+
+type ExportClient = Pick<SubtextClient, 'getThread' | 'listThreads' | 'listMessages' | 'listRuns'>;
+
+const CSV_COLUMNS = [
+  'thread_id',
+  'user_id',
+  'role',
+  'id',
+  'message_id',
+  'content',
+  'timestamp',
+  'model',
+  'provider',
+  'prompt_tokens',
+  'completion_tokens',
+  'total_tokens',
+  'latency_ms',
+  'finish_reason',
+  'error',
+];
+
+function toTime(value: Date | string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = value instanceof Date ? value.getTime() : Date.parse(value);
+  if (isNaN(time)) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return time;
+}
+
+async function collect<T>(page: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of page) {
+    items.push(item);
+  }
+  return items;
+}
+
+/**
+ * Iterate the threads that match the filters, each with all of its messages and runs.
+ *
+ * Threads are fetched one at a time, so memory use stays bounded by the largest thread.
+ *
+ * @param client - The client to read through
+ * @param filters - Which threads to include
+ * @param missingThreadIds - Receives requested thread IDs that don't exist
+ */
+export async function* iterateThreads(
+  client: ExportClient,
+  filters: ExportFilters & { pageSize?: number } = {},
+  missingThreadIds: string[] = []
+): AsyncGenerator<ExportedThread> {
+  const after = toTime(filters.createdAfter);
+  const before = toTime(filters.createdBefore);
+  const pageOptions = { limit: filters.pageSize };
+
+  const withEntries = async (thread: Thread): Promise<ExportedThread> => {
+    const [messages, runs] = await Promise.all([
+      collect(await client.listMessages(thread.threadId, pageOptions)),
+      collect(await client.listRuns(thread.threadId, pageOptions)),
+    ]);
+    return { thread, messages, runs };
+  };
+
+  if (!filters.threadIds) {
+    const threads = await client.listThreads({
+      userId: filters.userId,
+      createdAfter: filters.createdAfter,
+      createdBefore: filters.createdBefore,
+      limit: filters.pageSize,
+    });
+    for await (const thread of threads) {
+      yield await withEntries(thread);
+    }
+    return;
+  }
+
+  for (const threadId of filters.threadIds) {
+    let thread: Thread;
+    try {
+      thread = await client.getThread(threadId);
+    } catch (error) {
+      if (error instanceof SubtextNotFoundError) {
+        missingThreadIds.push(threadId);
+        continue;
+      }
+      throw error;
+    }
+
+    // Threads fetched by ID still have to match the other filters
+    const createdAt = Date.parse(thread.createdAt);
+    if (
+      (filters.userId !== undefined && thread.userId !== filters.userId) ||
+      (after !== undefined && createdAt < after) ||
+      (before !== undefined && createdAt >= before)
+    ) {
+      continue;
+    }
+    yield await withEntries(thread);
+  }
+}
+
+function toJsonl({ thread, messages, runs }: ExportedThread): string {
+  return JSON.stringify({
+    thread: thread.toDict(),
+    messages: messages.map((message) => message.toDict()),
+    runs: runs.map((run) => run.toDict()),
+  }) + '\n';
+}
+
+/**
+ * Messages and runs of a thread, ordered by creation time.
+ */
+function transcript({ messages, runs }: ExportedThread): Array<Message | Run> {
+  return [...messages, ...runs].sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+}
+
+function csvRow(thread: Thread, entry: Message | Run): string {
+  if (entry instanceof Message) {
+    return formatCsvRow([
+      thread.threadId,
+      thread.userId,
+      'user',
+      entry.messageId,
+      entry.messageId,
+      entry.message,
+      entry.createdAt,
+    ]);
+  }
+  return formatCsvRow([
+    thread.threadId,
+    thread.userId,
+    'assistant',
+    entry.runId,
+    entry.messageId,
+    entry.response,
+    entry.createdAt,
+    entry.model,
+    entry.provider,
+    entry.promptTokens,
+    entry.completionTokens,
+    entry.totalTokens,
+    entry.latencyMs,
+    entry.finishReason,
+    entry.error,
+  ]);
+}
+
+function toCsv(exported: ExportedThread): string {
+  return transcript(exported).map((entry) => csvRow(exported.thread, entry)).join('');
+}
+
+/**
+ * Quote text as a Markdown block quote, so its own formatting can't break the transcript.
+ */
+function blockQuote(text: string): string {
+  return text
+    .split(/\r?\n/)
+    .map((line) => (line === '' ? '>' : `> ${line}`))
+    .join('\n');
+}
+
+function toMarkdown(exported: ExportedThread): string {
+  const { thread } = exported;
+  const lines = [`## Thread ${thread.threadId}`, ''];
+  if (thread.userId) {
+    lines.push(`- User: ${thread.userId}`);
+  }
+  lines.push(`- Created: ${thread.createdAt}`, '');
+
+  for (const entry of transcript(exported)) {
+    if (entry instanceof Message) {
+      lines.push(`**User** · ${entry.createdAt}`, '', blockQuote(entry.message), '');
+    } else {
+      const details = [entry.model, entry.totalTokens !== undefined && `${entry.totalTokens} tokens`]
+        .filter(Boolean)
+        .join(', ');
+      lines.push(
+        `**Assistant** · ${entry.createdAt}${details ? ` (${details})` : ''}`,
+        '',
+        blockQuote(entry.response),
+        ''
+      );
+      if (entry.error) {
+        lines.push(`_Error: ${entry.error}_`, '');
+      }
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+const FORMATTERS: Record<ExportFormat, (exported: ExportedThread) => string> = {
+  jsonl: toJsonl,
+  csv: toCsv,
+  markdown: toMarkdown,
+};
+
+/**
+ * Export threads with their messages and runs.
+ *
+ * @param client - The client to read through
+ * @param options - Format, output and filters
+ * @returns Promise that resolves to the number of exported threads, messages and runs
+ *
+ * @example
+ * ```typescript
+ * const out = fs.createWriteStream("threads.jsonl");
+ * await exportThreads(client, {
+ *   userId: "user-456",
+ *   createdAfter: "2024-01-01",
+ *   write: (chunk) => { out.write(chunk); },
+ * });
+ * ```
+ */
+export async function exportThreads(client: ExportClient, options: ExportOptions): Promise<ExportSummary> {
+  const format = options.format ?? 'jsonl';
+  const formatter = FORMATTERS[format];
+  if (!formatter) {
+    throw new Error(`Unknown export format: ${format}`);
+  }
+
+  const summary: ExportSummary = { threads: 0, messages: 0, runs: 0, missingThreadIds: [] };
+
+  if (format === 'csv') {
+    await options.write(formatCsvRow(CSV_COLUMNS));
+  } else if (format === 'markdown') {
+    await options.write('# Subtext export\n\n');
+  }
+
+  for await (const exported of iterateThreads(client, options, summary.missingThreadIds)) {
+    await options.write(formatter(exported));
+    summary.threads += 1;
+    summary.messages += exported.messages.length;
+    summary.runs += exported.runs.length;
+    options.onProgress?.(exported);
+  }
+
+  return summary;
+}
@@ -0,0 +1,520 @@
+/**
+ * Bulk import of historical conversations.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { SamplingClientOptions, SubtextClient } from './client';
+import { parseCsv } from './csv';
+import { SubtextConflictError } from './exceptions';
+import { Message, Run } from './models';
+import { Page } from './pagination';
+
+/**
+ * `openai`: one conversation per line, as `{ "messages": [{ "role", "content" }] }`.
+ * `jsonl`: one turn per line, as `{ "thread_id", "role", "content", "timestamp" }`.
+ * `csv`: one turn per row, with `thread_id`, `role`, `content` and `timestamp` columns.
+ * `export`: one thread per line, as `{ thread, messages, runs }`, the JSONL that `subtext export` writes.
+ */
+export type ImportFormat = 'openai' | 'jsonl' | 'csv' | 'export';
+
+export interface ImportTurn {
+  role: string;
+  content: string;
+  timestamp?: string;
+  model?: string;
+}
+
+export interface ImportConversation {
+  threadId: string;
+  userId?: string;
+  turns: ImportTurn[];
+  /** Where the conversation was read from, e.g. "chats.jsonl:12" */
+  source: string;
+}
+
+export interface InvalidRecord {
+  /** Where the record was read from, e.g. "chats.jsonl:12" */
+  source: string;
+  reason: string;
+}
+
+export interface ParseResult {
+  conversations: ImportConversation[];
+  invalid: InvalidRecord[];
+}
+
+export interface ImportOptions {
+  /** Number of conversations imported at the same time (default: 4) */
+  concurrency?: number;
+  /** File that records imported conversations, so an interrupted import can resume (default: none) */
+  checkpointFile?: string;
+  /** Validate and count the conversations without sending anything (default: false) */
+  dryRun?: boolean;
+  /** Called after each conversation was imported, skipped or failed */
+  onProgress?: (progress: ImportProgress) => void;
+}
+
+export interface ImportProgress {
+  threadId: string;
+  status: 'imported' | 'skipped' | 'failed';
+  completed: number;
+  total: number;
+}
+
+export interface ImportFailureGroup {
+  /** Number of conversations that failed with this type of error */
+  count: number;
+  /** The first few failures, for diagnosis */
+  examples: Array<{ threadId: string; source: string; message: string }>;
+}
+
+export interface ImportSummary {
+  conversations: number;
+  imported: number;
+  /** Conversations skipped because the checkpoint file lists them */
+  skipped: number;
+  failed: number;
+  messages: number;
+  runs: number;
+  /** Failed conversations grouped by error class, e.g. "SubtextServerError" */
+  failures: Record<string, ImportFailureGroup>;
+  dryRun: boolean;
+}
+
+type ImportClient = Pick<
+  SubtextClient<SamplingClientOptions>,
+  'thread' | 'message' | 'run' | 'getThread' | 'listMessages' | 'listRuns'
+>;
+
+const USER_ROLES = ['user', 'human'];
+const ASSISTANT_ROLES = ['assistant', 'ai', 'bot'];
+const MAX_EXAMPLES = 5;
+
+/**
+ * Derive a stable thread ID from a conversation's record, so importing the same
+ * conversation again targets the same thread, whichever file it was read from.
+ */
+function importThreadId(record: string): string {
+  return `import_${createHash('sha256').update(record).digest('hex').slice(0, 24)}`;
+}
+
+/**
+ * Pick the text out of a chat message's content, which may be a string or a list of parts.
+ */
+function contentText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => (typeof part === 'string' ? part : part?.type === 'text' ? part.text : ''))
+      .filter(Boolean)
+      .join('');
+  }
+  return '';
+}
+
+function optionalString(value: unknown): string | undefined {
+  return value === undefined || value === null || value === '' ? undefined : String(value);
+}
+
+function parseOpenAI(lines: string[], name: string, result: ParseResult): void {
+  lines.forEach((line, index) => {
+    if (line.trim() === '') {
+      return;
+    }
+    const source = `${name}:${index + 1}`;
+    let record: any;
+    try {
+      record = JSON.parse(line);
+    } catch (error) {
+      result.invalid.push({ source, reason: `Invalid JSON: ${(error as Error).message}` });
+      return;
+    }
+    if (!Array.isArray(record?.messages)) {
+      result.invalid.push({ source, reason: 'Missing "messages" array' });
+      return;
+    }
+    if (!record.messages.every((message: any) => typeof message?.role === 'string')) {
+      result.invalid.push({ source, reason: 'Every message needs a "role"' });
+      return;
+    }
+    result.conversations.push({
+      threadId: optionalString(record.thread_id ?? record.id) ?? importThreadId(line.trim()),
+      userId: optionalString(record.user_id ?? record.user),
+      turns: record.messages.map((message: any) => ({
+        role: String(message?.role ?? ''),
+        content: contentText(message?.content),
+        model: optionalString(message?.model ?? record.model),
+      })),
+      source,
+    });
+  });
+}
+
+function parseExport(lines: string[], name: string, result: ParseResult): void {
+  lines.forEach((line, index) => {
+    if (line.trim() === '') {
+      return;
+    }
+    const source = `${name}:${index + 1}`;
+    let record: any;
+    try {
+      record = JSON.parse(line);
+    } catch (error) {
+      result.invalid.push({ source, reason: `Invalid JSON: ${(error as Error).message}` });
+      return;
+    }
+    const threadId = optionalString(record?.thread?.thread_id);
+    if (!threadId || !Array.isArray(record.messages) || !Array.isArray(record.runs)) {
+      result.invalid.push({ source, reason: 'thread.thread_id, messages and runs are required' });
+      return;
+    }
+    const turns: ImportTurn[] = [
+      ...record.messages.map((message: any) => ({
+        role: 'user',
+        content: String(message?.message ?? ''),
+        timestamp: optionalString(message?.created_at),
+      })),
+      ...record.runs.map((run: any) => ({
+        role: 'assistant',
+        content: String(run?.response ?? ''),
+        timestamp: optionalString(run?.created_at),
+        model: optionalString(run?.model),
+      })),
+    ];
+    result.conversations.push({
+      threadId,
+      userId: optionalString(record.thread.user_id),
+      turns: sortTurns(turns),
+      source,
+    });
+  });
+}
+
+/**
+ * Order turns by timestamp. Array.prototype.sort is stable, so turns without
+ * timestamps keep their order.
+ */
+function sortTurns(turns: ImportTurn[]): ImportTurn[] {
+  return turns.sort((a, b) =>
+    a.timestamp && b.timestamp ? Date.parse(a.timestamp) - Date.parse(b.timestamp) : 0
+  );
+}
+
+/**
+ * Group turn records by thread, ordered by timestamp within each thread.
+ */
+function groupTurns(
+  records: Array<{ source: string; fields: Record<string, unknown> }>,
+  result: ParseResult
+): void {
+  const threads = new Map<string, ImportConversation>();
+  for (const { source, fields } of records) {
+    const threadId = optionalString(fields.thread_id);
+    const role = optionalString(fields.role);
+    if (!threadId || !role || typeof fields.content !== 'string') {
+      result.invalid.push({ source, reason: 'thread_id, role and content are required' });
+      continue;
+    }
+    const timestamp = optionalString(fields.timestamp);
+    if (timestamp !== undefined && isNaN(Date.parse(timestamp))) {
+      result.invalid.push({ source, reason: `Invalid timestamp: ${timestamp}` });
+      continue;
+    }
+
+    let conversation = threads.get(threadId);
+    if (!conversation) {
+      conversation = { threadId, turns: [], source };
+      threads.set(threadId, conversation);
+    }
+    conversation.userId = conversation.userId ?? optionalString(fields.user_id);
+    conversation.turns.push({
+      role,
+      content: fields.content,
+      timestamp,
+      model: optionalString(fields.model),
+    });
+  }
+
+  for (const conversation of threads.values()) {
+    sortTurns(conversation.turns);
+    result.conversations.push(conversation);
+  }
+}
+
+function parseTurnsJsonl(lines: string[], name: string, result: ParseResult): void {
+  const records: Array<{ source: string; fields: Record<string, unknown> }> = [];
+  lines.forEach((line, index) => {
+    if (line.trim() === '') {
+      return;
+    }
+    const source = `${name}:${index + 1}`;
+    try {
+      records.push({ source, fields: JSON.parse(line) ?? {} });
+    } catch (error) {
+      result.invalid.push({ source, reason: `Invalid JSON: ${(error as Error).message}` });
+    }
+  });
+  groupTurns(records, result);
+}
+
+function parseTurnsCsv(text: string, name: string, result: ParseResult): void {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return;
+  }
+  const columns = header.map((column) => column.trim().toLowerCase());
+  const records = rows.map((row, index) => ({
+    // Row 1 is the header
+    source: `${name}:${index + 2}`,
+    fields: Object.fromEntries(columns.map((column, position) => [column, row[position]])),
+  }));
+  groupTurns(records, result);
+}
+
+/**
+ * Guess the format of a file from its extension and first record.
+ */
+export function detectFormat(fileName: string, text: string): ImportFormat {
+  if (path.extname(fileName).toLowerCase() === '.csv') {
+    return 'csv';
+  }
+  const firstLine = text.split('\n').find((line) => line.trim() !== '');
+  try {
+    const record = JSON.parse(firstLine ?? '');
+    if (record?.thread && Array.isArray(record.runs)) {
+      return 'export';
+    }
+    return Array.isArray(record?.messages) ? 'openai' : 'jsonl';
+  } catch {
+    return 'jsonl';
+  }
+}
+
+/**
+ * Parse the conversations in a file's contents.
+ *
+ * Records that can't be parsed are reported in `invalid` instead of throwing,
+ * so one bad line doesn't stop an import.
+ *
+ * @param text - The file contents
+ * @param format - The file format
+ * @param name - Name used in `source`, usually the file name
+ */
+export function parseConversations(text: string, format: ImportFormat, name: string): ParseResult {
+  const result: ParseResult = { conversations: [], invalid: [] };
+  switch (format) {
+    case 'openai':
+      parseOpenAI(text.split(/\r?\n/), name, result);
+      break;
+    case 'jsonl':
+      parseTurnsJsonl(text.split(/\r?\n/), name, result);
+      break;
+    case 'csv':
+      parseTurnsCsv(text, name, result);
+      break;
+    case 'export':
+      parseExport(text.split(/\r?\n/), name, result);
+      break;
+    default:
+      throw new Error(`Unknown import format: ${format}`);
+  }
+  return result;
+}
+
+async function readCheckpoint(file: string): Promise<Set<string>> {
+  try {
+    const text = await fs.readFile(file, 'utf8');
+    return new Set(text.split('\n').filter(Boolean));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return new Set();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Run `create`, treating a conflict as already imported if the existing record matches.
+ *
+ * IDs are deterministic, so a conflict usually means an earlier, interrupted
+ * import already created the record. A conflicting record with different
+ * content belongs to another conversation and fails the import instead.
+ */
+async function createOnce(
+  description: string,
+  create: () => Promise<unknown>,
+  matches: () => Promise<boolean>
+): Promise<boolean> {
+  try {
+    await create();
+    return true;
+  } catch (error) {
+    if (!(error instanceof SubtextConflictError)) {
+      throw error;
+    }
+    if (await matches()) {
+      return false;
+    }
+    throw new SubtextConflictError(`${description} already exists with different content`, error.responseData);
+  }
+}
+
+/**
+ * Load every record of a thread by ID.
+ */
+async function loadRecords<T>(page: Promise<Page<T>>, idOf: (record: T) => string): Promise<Map<string, T>> {
+  const records = new Map<string, T>();
+  for await (const record of await page) {
+    records.set(idOf(record), record);
+  }
+  return records;
+}
+
+/**
+ * Record conversations through a client.
+ *
+ * User turns become messages and assistant turns become runs linked to the
+ * preceding user message. Other turns, such as system prompts, are skipped.
+ * Message and run IDs are derived from the thread ID and the turn's position,
+ * so a conversation that is imported again doesn't create duplicates. A
+ * conversation whose IDs are already taken by records with different content
+ * fails with a `SubtextConflictError`.
+ *
+ * @param client - The client to record through
+ * @param conversations - Conversations from `parseConversations()`
+ * @param options - Concurrency, checkpoint and dry-run options
+ * @returns Promise that resolves to a summary, with failures grouped by error class
+ */
+export async function importConversations(
+  client: ImportClient,
+  conversations: ImportConversation[],
+  options: ImportOptions = {}
+): Promise<ImportSummary> {
+  const concurrency = options.concurrency ?? 4;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error('concurrency must be a positive integer');
+  }
+
+  const summary: ImportSummary = {
+    conversations: conversations.length,
+    imported: 0,
+    skipped: 0,
+    failed: 0,
+    messages: 0,
+    runs: 0,
+    failures: {},
+    dryRun: options.dryRun === true,
+  };
+  const done = options.checkpointFile ? await readCheckpoint(options.checkpointFile) : new Set<string>();
+  let completed = 0;
+
+  const report = (threadId: string, status: ImportProgress['status']) => {
+    completed += 1;
+    options.onProgress?.({ threadId, status, completed, total: conversations.length });
+  };
+
+  const importOne = async (conversation: ImportConversation) => {
+    const { threadId } = conversation;
+    if (done.has(threadId)) {
+      summary.skipped += 1;
+      report(threadId, 'skipped');
+      return;
+    }
+
+    // Loaded on the first conflict, to compare with the records being imported
+    let existingMessages: Promise<Map<string, Message>> | undefined;
+    let existingRuns: Promise<Map<string, Run>> | undefined;
+    const existingMessage = async (messageId: string) => {
+      existingMessages = existingMessages ?? loadRecords(client.listMessages(threadId), (message) => message.messageId);
+      return (await existingMessages).get(messageId);
+    };
+    const existingRun = async (runId: string) => {
+      existingRuns = existingRuns ?? loadRecords(client.listRuns(threadId), (run) => run.runId);
+      return (await existingRuns).get(runId);
+    };
+
+    let messages = 0;
+    let runs = 0;
+    try {
+      if (!options.dryRun) {
+        await createOnce(
+          `Thread ${threadId}`,
+          () => client.thread({ threadId, userId: conversation.userId }),
+          async () => {
+            const thread = await client.getThread(threadId);
+            return conversation.userId === undefined || thread.userId === conversation.userId;
+          }
+        );
+      }
+
+      let lastMessageId: string | undefined;
+      for (const [index, turn] of conversation.turns.entries()) {
+        const role = turn.role.toLowerCase();
+        if (turn.content === '') {
+          continue;
+        }
+        if (USER_ROLES.includes(role)) {
+          const messageId = `${threadId}-msg-${index}`;
+          if (!options.dryRun) {
+            await createOnce(
+              `Message ${messageId}`,
+              () => client.message({ threadId, message: turn.content, messageId }),
+              async () => (await existingMessage(messageId))?.message === turn.content
+            );
+          }
+          lastMessageId = messageId;
+          messages += 1;
+        } else if (ASSISTANT_ROLES.includes(role)) {
+          const runId = `${threadId}-run-${index}`;
+          if (!options.dryRun) {
+            await createOnce(
+              `Run ${runId}`,
+              () => client.run({
+                threadId,
+                runId,
+                response: turn.content,
+                messageId: lastMessageId,
+                model: turn.model,
+                endedAt: turn.timestamp,
+              }),
+              async () => (await existingRun(runId))?.response === turn.content
+            );
+          }
+          runs += 1;
+        }
+      }
+    } catch (error) {
+      const name = (error as Error)?.constructor?.name || 'Error';
+      const group = summary.failures[name] ?? (summary.failures[name] = { count: 0, examples: [] });
+      group.count += 1;
+      if (group.examples.length < MAX_EXAMPLES) {
+        group.examples.push({ threadId, source: conversation.source, message: (error as Error).message });
+      }
+      summary.failed += 1;
+      report(threadId, 'failed');
+      return;
+    }
+
+    summary.imported += 1;
+    summary.messages += messages;
+    summary.runs += runs;
+    if (options.checkpointFile && !options.dryRun) {
+      await fs.appendFile(options.checkpointFile, `${threadId}\n`);
+    }
+    report(threadId, 'imported');
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < conversations.length) {
+      await importOne(conversations[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, conversations.length) }, worker));
+
+  return summary;
+}
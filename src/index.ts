@@ -29,22 +29,164 @@
  */
 
 // Export the main client
-export { SubtextClient, SubtextClientOptions } from './client';
+export {
+  SubtextClient,
+  SubtextClientOptions,
+  SamplingClientOptions,
+  SampledResult,
+  RunOptions,
+  RunMetadataOptions,
+  ListThreadsOptions,
+  UpdateThreadOptions,
+  DeleteUserDataOptions,
+  DeleteUserDataProgress,
+  DeleteUserDataResult,
+} from './client';
+
+// Export middleware types
+export {
+  Middleware,
+  MiddlewareResponse,
+  RequestContext,
+  ResponseContext,
+  ErrorContext,
+  HttpMethod,
+} from './middleware';
+
+// Export transports
+export {
+  Transport,
+  TransportConfig,
+  TransportRequest,
+  TransportResponse,
+  TransportError,
+  AxiosTransport,
+  FetchTransport,
+} from './transport';
+
+// Export thread export
+export {
+  exportThreads,
+  iterateThreads,
+  ExportFormat,
+  ExportFilters,
+  ExportOptions,
+  ExportedThread,
+  ExportSummary,
+} from './export';
+
+// Export retry policy types
+export { RetryOptions, RetryInfo, RetryJitter } from './retry';
+
+// Export redaction
+export {
+  Redactor,
+  RedactOptions,
+  RedactionRule,
+  RedactionReport,
+  RedactionResult,
+  RedactionStrategy,
+  BuiltInDetector,
+} from './redact';
+
+// Export sampling
+export { Sampler, SamplingOptions, SamplingContext, isThreadSampled } from './sampling';
+
+// Export OpenTelemetry instrumentation
+export { telemetry, TelemetryOptions, TracerProviderLike, MeterProviderLike } from './telemetry';
+
+// Export rate limiter
+export { RateLimiter, RateLimitOptions } from './rate-limiter';
+
+// Export circuit breaker
+export { CircuitBreaker, CircuitBreakerOptions, CircuitState } from './circuit-breaker';
+
+// Export pagination
+export { Page, PageOptions } from './pagination';
+
+// Export batching types
+export { BatchOptions, BatchItem, BatchResult } from './batch';
+
+// Export spool types; the spool itself is in the Node.js entry point
+export type { FileSpool, SpoolOptions, SpoolEntry, SpoolReplayResult } from './spool';
+
+// Export sessions
+export {
+  Session,
+  SessionOptions,
+  UserMessageOptions,
+  AssistantRunOptions,
+  IdKind,
+  generateId,
+} from './session';
+
+// Export stream capture
+export { captureStream, CaptureStreamOptions, tapAsyncIterable, TapHooks } from './stream';
+
+// Export LLM SDK integrations
+export { RecorderOptions, RecordedExchange } from './integrations/recorder';
+export {
+  wrapOpenAI,
+  WrapOpenAIOptions,
+  OpenAILike,
+  OpenAIChatCompletionParams,
+} from './integrations/openai';
+export {
+  wrapAnthropic,
+  WrapAnthropicOptions,
+  AnthropicLike,
+  AnthropicMessageParams,
+  AnthropicContentBlock,
+} from './integrations/anthropic';
+export {
+  SubtextSpanExporter,
+  SubtextSpanExporterOptions,
+  ReadableSpanLike,
+  SpanExportResult,
+} from './integrations/otel';
+
+// Export web framework middleware
+export { ChatTrackingOptions } from './integrations/http';
+export {
+  subtextExpress,
+  SubtextExpressOptions,
+  ExpressRequestLike,
+  ExpressResponseLike,
+} from './integrations/express';
+export {
+  subtextFastify,
+  SubtextFastifyOptions,
+  FastifyRequestLike,
+  FastifyReplyLike,
+  FastifyInstanceLike,
+} from './integrations/fastify';
+export { subtextKoa, SubtextKoaOptions, KoaContextLike } from './integrations/koa';
 
 // Export data models and classes
 export {
   Message,
   Thread,
   Run,
+  NotSampled,
   CreateThreadRequest,
+  UpdateThreadRequest,
   CreateMessageRequest,
   CreateRunRequest,
+  RunMetadata,
   ThreadData,
   MessageData,
   RunData,
   CreateThreadResponse,
   CreateMessageResponse,
   CreateRunResponse,
+  GetThreadResponse,
+  ListThreadsResponse,
+  UpdateThreadResponse,
+  ListMessagesResponse,
+  ListRunsResponse,
+  ConversationEntry,
+  ConversationOptions,
+  ThreadNavigator,
   ErrorResponse,
 } from './models';
 
@@ -54,8 +196,11 @@ export {
   SubtextAuthenticationError,
   SubtextValidationError,
   SubtextNotFoundError,
+  SubtextConflictError,
+  SubtextRateLimitError,
   SubtextServerError,
   SubtextConnectionError,
+  SubtextCircuitOpenError,
   SubtextTimeoutError,
 } from './exceptions';
 
@@ -0,0 +1,302 @@
+/**
+ * Drop-in wrapper for the Anthropic SDK that records messages as runs.
+ */
+
+import { RunMetadataOptions, SamplingClientOptions, SubtextClient } from '../client';
+import {
+  ExchangeRecorder,
+  RecorderOptions,
+  mapPromiseResult,
+  overrideProperty,
+} from './recorder';
+import { streamMetadata, tapAsyncIterable } from '../stream';
+
+/**
+ * A content block as it appears in Anthropic requests and responses.
+ */
+export interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+  name?: string;
+  input?: unknown;
+  content?: string | AnthropicContentBlock[];
+  [key: string]: any;
+}
+
+/**
+ * The parts of a Messages API request the wrapper reads.
+ */
+export interface AnthropicMessageParams {
+  model: string;
+  system?: string | AnthropicContentBlock[];
+  messages: Array<{
+    role: string;
+    content: string | AnthropicContentBlock[];
+  }>;
+  max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  stream?: boolean;
+  [key: string]: any;
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface AnthropicMessage {
+  model?: string;
+  content?: AnthropicContentBlock[];
+  stop_reason?: string | null;
+  usage?: AnthropicUsage;
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  index?: number;
+  message?: AnthropicMessage;
+  content_block?: AnthropicContentBlock;
+  delta?: {
+    type?: string;
+    text?: string;
+    partial_json?: string;
+    stop_reason?: string | null;
+  };
+  usage?: AnthropicUsage;
+}
+
+/**
+ * The minimal shape of an Anthropic client that can be wrapped.
+ */
+export interface AnthropicLike {
+  messages: {
+    create: (params: any, ...rest: any[]) => any;
+    stream?: (params: any, ...rest: any[]) => any;
+  };
+}
+
+export interface WrapAnthropicOptions extends RecorderOptions {
+  /** Thread to record into, or a function that picks the thread for each request */
+  threadId: string | ((params: AnthropicMessageParams) => string);
+}
+
+function blocksToText(content: string | AnthropicContentBlock[] | undefined): string {
+  if (!content) {
+    return '';
+  }
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .map((block) => {
+      switch (block.type) {
+        case 'text':
+          return block.text || '';
+        case 'tool_use':
+          return `[tool_use: ${block.name}(${JSON.stringify(block.input ?? {})})]`;
+        case 'tool_result':
+          return `[tool_result: ${blocksToText(block.content)}]`;
+        case 'thinking':
+        case 'redacted_thinking':
+          return '';
+        default:
+          return `[${block.type}]`;
+      }
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * The user text a request ends with. In a tool loop the later requests end with
+ * a user turn that only holds `tool_result` blocks, which is not a new message.
+ */
+function newUserMessage(params: AnthropicMessageParams): string | undefined {
+  const last = params.messages?.[params.messages.length - 1];
+  if (last?.role !== 'user') {
+    return undefined;
+  }
+  const content = typeof last.content === 'string'
+    ? last.content
+    : last.content?.filter((block) => block.type !== 'tool_result');
+  return blocksToText(content) || undefined;
+}
+
+/**
+ * Wrap an Anthropic client so that every `messages.create` and `messages.stream`
+ * call is recorded in Subtext.
+ *
+ * The user text a request ends with is recorded as a `Message` and the
+ * assistant text as a `Run`, with the model name, token usage, timing and
+ * sampling parameters. Tool-use blocks are flattened into the recorded response.
+ * Requests that end with tool results only record a `Run`.
+ * Recording happens in the background and never affects the wrapped call;
+ * failures are passed to `onError`. Return values are passed through unchanged.
+ *
+ * @param anthropic - The Anthropic client to wrap. It is not modified.
+ * @param subtext - The Subtext client to record with
+ * @param options - Wrapper options
+ * @returns A client with the same type as `anthropic`
+ *
+ * @example
+ * ```typescript
+ * import Anthropic from '@anthropic-ai/sdk';
+ * import { wrapAnthropic } from '@subtextai/subtext';
+ *
+ * const anthropic = wrapAnthropic(new Anthropic(), subtext, { threadId: "thread-123" });
+ * const message = await anthropic.messages.create({
+ *   model: "claude-sonnet-4-5",
+ *   max_tokens: 1024,
+ *   messages: [{ role: "user", content: "Hello!" }]
+ * });
+ * ```
+ */
+export function wrapAnthropic<T extends AnthropicLike>(
+  anthropic: T,
+  subtext: SubtextClient<SamplingClientOptions>,
+  options: WrapAnthropicOptions
+): T {
+  const recorder = new ExchangeRecorder(subtext, options);
+
+  const record = (
+    params: AnthropicMessageParams,
+    startedAt: Date,
+    message: AnthropicMessage,
+    extra: RunMetadataOptions = {}
+  ) => {
+    let threadId: string;
+    try {
+      threadId = typeof options.threadId === 'function'
+        ? options.threadId(params)
+        : options.threadId;
+    } catch (error) {
+      options.onError?.(error as Error);
+      return;
+    }
+
+    recorder.record({
+      threadId,
+      userMessage: newUserMessage(params),
+      response: blocksToText(message.content),
+      metadata: {
+        model: message.model || params.model,
+        provider: 'anthropic',
+        promptTokens: message.usage?.input_tokens,
+        completionTokens: message.usage?.output_tokens,
+        startedAt,
+        endedAt: new Date(),
+        temperature: params.temperature,
+        topP: params.top_p,
+        topK: params.top_k,
+        maxTokens: params.max_tokens,
+        finishReason: message.stop_reason || undefined,
+        ...extra,
+      },
+    });
+  };
+
+  const tapStream = (
+    stream: AsyncIterable<AnthropicStreamEvent>,
+    params: AnthropicMessageParams,
+    startedAt: Date
+  ) => {
+    const message: AnthropicMessage = { content: [], usage: {} };
+    const toolInputs: string[] = [];
+    let firstTokenAt: number | undefined;
+
+    return tapAsyncIterable(stream, {
+      onItem: (event) => {
+        switch (event.type) {
+          case 'message_start':
+            message.model = event.message?.model;
+            message.usage = { ...event.message?.usage };
+            break;
+          case 'content_block_start':
+            if (event.content_block && event.index !== undefined) {
+              message.content![event.index] = { ...event.content_block };
+            }
+            break;
+          case 'content_block_delta': {
+            const block = event.index !== undefined ? message.content![event.index] : undefined;
+            if (!block) {
+              break;
+            }
+            if (event.delta?.type === 'text_delta') {
+              block.text = (block.text || '') + (event.delta.text || '');
+            } else if (event.delta?.type === 'input_json_delta') {
+              toolInputs[event.index!] = (toolInputs[event.index!] || '') + (event.delta.partial_json || '');
+            }
+            // Only deltas with text count as the first token, not message_start or empty deltas
+            if (event.delta?.text || event.delta?.partial_json) {
+              firstTokenAt = firstTokenAt ?? Date.now();
+            }
+            break;
+          }
+          case 'message_delta':
+            message.stop_reason = event.delta?.stop_reason ?? message.stop_reason;
+            message.usage = { ...message.usage, ...event.usage };
+            break;
+        }
+      },
+      onEnd: (completed, error) => {
+        toolInputs.forEach((input, index) => {
+          const block = message.content![index];
+          if (block && input) {
+            try {
+              block.input = JSON.parse(input);
+            } catch {
+              // Keep the raw JSON if the stream stopped mid-way
+              block.input = input;
+            }
+          }
+        });
+        message.content = message.content!.filter(Boolean);
+        record(params, startedAt, message, streamMetadata(startedAt, firstTokenAt, completed, error));
+      },
+    });
+  };
+
+  const original = anthropic.messages;
+
+  function create(params: AnthropicMessageParams, ...rest: any[]) {
+    const startedAt = new Date();
+    const result = original.create(params, ...rest);
+
+    if (params?.stream) {
+      return mapPromiseResult(result, (stream) => tapStream(stream, params, startedAt));
+    }
+
+    Promise.resolve(result).then(
+      (message: AnthropicMessage) => record(params, startedAt, message || {}),
+      // The caller handles errors from the wrapped call
+      () => undefined
+    );
+
+    return result;
+  }
+
+  function stream(params: AnthropicMessageParams, ...rest: any[]) {
+    const startedAt = new Date();
+    const messageStream = original.stream!(params, ...rest);
+
+    // finalMessage() resolves once the stream is done, without consuming it
+    Promise.resolve(messageStream?.finalMessage?.()).then(
+      (message: AnthropicMessage | undefined) => {
+        if (message) {
+          record(params, startedAt, message);
+        }
+      },
+      () => undefined
+    );
+
+    return messageStream;
+  }
+
+  let messages = overrideProperty(original, 'create', create);
+  if (typeof original.stream === 'function') {
+    messages = overrideProperty(messages, 'stream', stream);
+  }
+  return overrideProperty(anthropic, 'messages', messages);
+}
@@ -0,0 +1,88 @@
+/**
+ * Express middleware that records chat endpoints.
+ */
+
+import { SamplingClientOptions, SubtextClient } from '../client';
+import { Session } from '../session';
+import { ChatTracker, ChatTrackingOptions } from './http';
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** The Subtext session of the request, set by `subtextExpress()` */
+      subtext?: Session<SamplingClientOptions>;
+    }
+  }
+}
+
+/**
+ * The minimal shape of an Express request the middleware reads.
+ */
+export interface ExpressRequestLike {
+  headers: Record<string, string | string[] | undefined>;
+  body?: any;
+  subtext?: Session<SamplingClientOptions>;
+}
+
+/**
+ * The minimal shape of an Express response the middleware reads.
+ */
+export interface ExpressResponseLike {
+  statusCode: number;
+  send: (body?: any) => any;
+  once: (event: 'finish', listener: () => void) => any;
+}
+
+export type SubtextExpressOptions<
+  Req extends ExpressRequestLike = ExpressRequestLike,
+  Res extends ExpressResponseLike = ExpressResponseLike
+> = ChatTrackingOptions<[req: Req, res: Res]>;
+
+/**
+ * Create Express middleware that records each request as a user message and
+ * its response as a run.
+ *
+ * Recording starts after the response was sent, so it adds no latency. The
+ * request's session is available as `req.subtext` for recording by hand.
+ * Mount it after the body parser so the extractors can read `req.body`.
+ *
+ * @param client - The client to record through
+ * @param options - Extractors and callbacks
+ * @returns The middleware
+ *
+ * @example
+ * ```typescript
+ * app.use(express.json());
+ * app.use('/api/chat', subtextExpress(subtext, {
+ *   userMessage: (req) => req.body.prompt,
+ *   assistantResponse: (body: any) => body.answer,
+ * }));
+ * ```
+ */
+export function subtextExpress<
+  Req extends ExpressRequestLike = ExpressRequestLike,
+  Res extends ExpressResponseLike = ExpressResponseLike
+>(
+  client: SubtextClient<SamplingClientOptions>,
+  options: SubtextExpressOptions<Req, Res> = {}
+): (req: Req, res: Res, next: (error?: unknown) => void) => void {
+  const tracker = new ChatTracker<[Req, Res]>(client, options, (req) => req);
+
+  return (req, res, next) => {
+    const tracked = tracker.start(req, res);
+    req.subtext = tracked.session;
+
+    // res.json() and res.render() go through res.send(), so this sees their bodies too
+    let body: unknown;
+    const send = res.send;
+    res.send = function (this: unknown, data?: any) {
+      if (body === undefined) {
+        body = data;
+      }
+      return send.call(this, data);
+    };
+
+    res.once('finish', () => tracker.record(tracked, res.statusCode, body, req, res));
+    next();
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Fastify plugin that records chat endpoints.
+ */
+
+import { SamplingClientOptions, SubtextClient } from '../client';
+import { Session } from '../session';
+import { ChatTracker, ChatTrackingOptions, TrackedRequest } from './http';
+
+/**
+ * The minimal shape of a Fastify request the plugin reads.
+ */
+export interface FastifyRequestLike {
+  headers: Record<string, string | string[] | undefined>;
+  body?: any;
+  subtext?: Session<SamplingClientOptions> | null;
+}
+
+/**
+ * The minimal shape of a Fastify reply the plugin reads.
+ */
+export interface FastifyReplyLike {
+  statusCode: number;
+}
+
+/**
+ * The minimal shape of a Fastify instance the plugin registers with.
+ */
+export interface FastifyInstanceLike {
+  decorateRequest: (name: string, value: unknown) => unknown;
+  addHook: (name: any, hook: (...args: any[]) => any) => unknown;
+}
+
+export type SubtextFastifyOptions<
+  Request extends FastifyRequestLike = FastifyRequestLike,
+  Reply extends FastifyReplyLike = FastifyReplyLike
+> = ChatTrackingOptions<[request: Request, reply: Reply]>;
+
+/**
+ * Create a Fastify plugin that records each request as a user message and
+ * its response as a run.
+ *
+ * Recording starts after the response was sent, so it adds no latency. The
+ * request's session is available as `request.subtext` for recording by hand.
+ * The plugin's hooks apply to every route of the instance it's registered
+ * with; use `shouldRecord` or register it in a scoped plugin to limit it.
+ *
+ * @param client - The client to record through
+ * @param options - Extractors and callbacks
+ * @returns The plugin
+ *
+ * @example
+ * ```typescript
+ * await fastify.register(subtextFastify(subtext, {
+ *   shouldRecord: (statusCode, request) => statusCode < 400 && request.url.startsWith('/chat'),
+ * }));
+ * ```
+ */
+export function subtextFastify<
+  Request extends FastifyRequestLike = FastifyRequestLike,
+  Reply extends FastifyReplyLike = FastifyReplyLike
+>(
+  client: SubtextClient<SamplingClientOptions>,
+  options: SubtextFastifyOptions<Request, Reply> = {}
+): (instance: FastifyInstanceLike) => Promise<void> {
+  const tracker = new ChatTracker<[Request, Reply]>(client, options, (request) => request);
+  const requests = new WeakMap<Request, { tracked: TrackedRequest; body?: unknown }>();
+
+  const plugin = async (instance: FastifyInstanceLike) => {
+    instance.decorateRequest('subtext', null);
+
+    // preHandler runs after the body was parsed, so the extractors can read it
+    instance.addHook('preHandler', async (request: Request, reply: Reply) => {
+      const tracked = tracker.start(request, reply);
+      request.subtext = tracked.session;
+      requests.set(request, { tracked });
+    });
+
+    instance.addHook('onSend', async (request: Request, _reply: Reply, payload: unknown) => {
+      const state = requests.get(request);
+      if (state) {
+        state.body = payload;
+      }
+      return payload;
+    });
+
+    instance.addHook('onResponse', async (request: Request, reply: Reply) => {
+      const state = requests.get(request);
+      if (state) {
+        requests.delete(request);
+        tracker.record(state.tracked, reply.statusCode, state.body, request, reply);
+      }
+    });
+  };
+
+  // Without encapsulation, the hooks apply to the routes of the parent instance
+  (plugin as any)[Symbol.for('skip-override')] = true;
+  return plugin;
+}
@@ -0,0 +1,206 @@
+/**
+ * Shared tracking logic for the web framework middleware.
+ */
+
+import { RunMetadataOptions, SamplingClientOptions, SubtextClient } from '../client';
+import { Session } from '../session';
+
+/**
+ * The parts of a request the default extractors read.
+ */
+export interface RequestView {
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+}
+
+/**
+ * Options shared by the Express, Fastify and Koa middleware.
+ *
+ * Extractors receive the framework's own arguments, e.g. `(req, res)` for
+ * Express, and return `undefined` when the value isn't there.
+ */
+export interface ChatTrackingOptions<Args extends unknown[]> {
+  /** Picks the thread of a request (default: the `x-thread-id` header, or a generated ID) */
+  threadId?: (...args: Args) => string | undefined;
+  /** Picks the user of a request (default: the `x-user-id` header) */
+  userId?: (...args: Args) => string | undefined;
+  /** Picks the user message from a request (default: the `message` field of the request body) */
+  userMessage?: (...args: Args) => string | undefined;
+  /**
+   * Picks the assistant response from the response body, which is parsed as JSON
+   * when possible (default: a string body, or its `response` field)
+   */
+  assistantResponse?: (body: unknown, ...args: Args) => string | undefined;
+  /** Extra run metadata, such as the model, read after the response was sent */
+  runMetadata?: (...args: Args) => RunMetadataOptions | undefined;
+  /** Whether to record a response (default: status codes below 400) */
+  shouldRecord?: (statusCode: number, ...args: Args) => boolean;
+  /** Called after a request has been recorded, with its session */
+  onRecorded?: (session: Session<SamplingClientOptions>) => void;
+  /** Called when recording fails. Requests are never affected. */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * A request being tracked.
+ */
+export interface TrackedRequest {
+  session: Session<SamplingClientOptions>;
+  startedAt: Date;
+}
+
+type TrackingClient = Pick<SubtextClient<SamplingClientOptions>, 'thread' | 'message' | 'run'>;
+
+/** Number of thread IDs remembered as already created */
+const MAX_KNOWN_THREADS = 10000;
+
+function header(view: RequestView, name: string): string | undefined {
+  const value = view.headers[name];
+  return (Array.isArray(value) ? value[0] : value) || undefined;
+}
+
+function stringField(value: unknown, field: string): string | undefined {
+  const text = value && typeof value === 'object' ? (value as Record<string, unknown>)[field] : undefined;
+  return typeof text === 'string' && text !== '' ? text : undefined;
+}
+
+/**
+ * Turn a captured response body into text or parsed JSON.
+ */
+export function parseBody(body: unknown): unknown {
+  const text = Buffer.isBuffer(body) ? body.toString('utf8') : body;
+  if (typeof text !== 'string') {
+    return text;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Creates a session per request and records the exchange once the response was sent.
+ *
+ * Recording never throws; failures are passed to `onError`.
+ */
+export class ChatTracker<Args extends unknown[]> {
+  private client: TrackingClient;
+  private options: ChatTrackingOptions<Args>;
+  private view: (...args: Args) => RequestView;
+  private knownThreads = new Set<string>();
+
+  /**
+   * @param client - The client to record through
+   * @param options - Extractors and callbacks
+   * @param view - Reads the headers and body of a request for the default extractors
+   */
+  constructor(client: TrackingClient, options: ChatTrackingOptions<Args>, view: (...args: Args) => RequestView) {
+    this.client = client;
+    this.options = options;
+    this.view = view;
+  }
+
+  /**
+   * Start tracking a request, creating the session the handler can record into.
+   */
+  start(...args: Args): TrackedRequest {
+    let threadId: string | undefined;
+    let userId: string | undefined;
+    try {
+      threadId = this.options.threadId
+        ? this.options.threadId(...args)
+        : header(this.view(...args), 'x-thread-id');
+      userId = this.options.userId
+        ? this.options.userId(...args)
+        : header(this.view(...args), 'x-user-id');
+    } catch (error) {
+      this.report(error);
+    }
+
+    const session = new Session<SamplingClientOptions>(this.client, {
+      threadId,
+      userId,
+      // Skip creating threads this process already created
+      createThread: !(threadId && this.knownThreads.has(threadId)),
+    });
+    return { session, startedAt: new Date() };
+  }
+
+  /**
+   * Record a finished request in the background.
+   *
+   * @param tracked - The value `start()` returned for the request
+   * @param statusCode - The response status code
+   * @param body - The response body as sent, if it was captured
+   * @param args - The framework's arguments, passed to the extractors
+   */
+  record(tracked: TrackedRequest, statusCode: number, body: unknown, ...args: Args): void {
+    const endedAt = new Date();
+    this.recordRequest(tracked, statusCode, body, endedAt, args).catch((error) => this.report(error));
+  }
+
+  private async recordRequest(
+    { session, startedAt }: TrackedRequest,
+    statusCode: number,
+    body: unknown,
+    endedAt: Date,
+    args: Args
+  ): Promise<void> {
+    const shouldRecord = this.options.shouldRecord
+      ? this.options.shouldRecord(statusCode, ...args)
+      : statusCode < 400;
+    if (!shouldRecord) {
+      return;
+    }
+
+    const parsed = parseBody(body);
+    const userMessage = this.options.userMessage
+      ? this.options.userMessage(...args)
+      : stringField(this.view(...args).body, 'message');
+    const response = this.options.assistantResponse
+      ? this.options.assistantResponse(parsed, ...args)
+      : typeof parsed === 'string' ? parsed || undefined : stringField(parsed, 'response');
+    if (!userMessage && !response) {
+      return;
+    }
+
+    if (userMessage) {
+      await session.userMessage(userMessage);
+    }
+    if (response) {
+      await session.assistantRun(response, {
+        startedAt,
+        endedAt,
+        latencyMs: endedAt.getTime() - startedAt.getTime(),
+        ...this.options.runMetadata?.(...args),
+      });
+    }
+    this.remember(session.threadId);
+
+    try {
+      this.options.onRecorded?.(session);
+    } catch {
+      // Ignore errors from the callback
+    }
+  }
+
+  private remember(threadId: string): void {
+    if (this.knownThreads.has(threadId)) {
+      return;
+    }
+    if (this.knownThreads.size >= MAX_KNOWN_THREADS) {
+      // Sets iterate in insertion order, so this drops the oldest thread
+      this.knownThreads.delete(this.knownThreads.values().next().value as string);
+    }
+    this.knownThreads.add(threadId);
+  }
+
+  private report(error: unknown): void {
+    try {
+      this.options.onError?.(error instanceof Error ? error : new Error(String(error)));
+    } catch {
+      // Ignore errors from the callback
+    }
+  }
+}
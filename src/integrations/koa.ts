@@ -0,0 +1,63 @@
+/**
+ * Koa middleware that records chat endpoints.
+ */
+
+import { SamplingClientOptions, SubtextClient } from '../client';
+import { ChatTracker, ChatTrackingOptions } from './http';
+
+/**
+ * The minimal shape of a Koa context the middleware reads.
+ */
+export interface KoaContextLike {
+  headers: Record<string, string | string[] | undefined>;
+  /** The parsed request body, as set by a body parser */
+  request: { body?: any };
+  status: number;
+  body?: unknown;
+  state: Record<string, any>;
+  res: { once: (event: 'finish', listener: () => void) => any };
+}
+
+export type SubtextKoaOptions<Context extends KoaContextLike = KoaContextLike> =
+  ChatTrackingOptions<[ctx: Context]>;
+
+/**
+ * Create Koa middleware that records each request as a user message and
+ * its response as a run.
+ *
+ * Recording starts after the response was sent, so it adds no latency. The
+ * request's session is available as `ctx.state.subtext` for recording by hand.
+ * Mount it after the body parser so the extractors can read `ctx.request.body`.
+ *
+ * @param client - The client to record through
+ * @param options - Extractors and callbacks
+ * @returns The middleware
+ *
+ * @example
+ * ```typescript
+ * app.use(bodyParser());
+ * app.use(subtextKoa(subtext, {
+ *   userMessage: (ctx) => ctx.request.body.prompt,
+ * }));
+ * ```
+ */
+export function subtextKoa<Context extends KoaContextLike = KoaContextLike>(
+  client: SubtextClient<SamplingClientOptions>,
+  options: SubtextKoaOptions<Context> = {}
+): (ctx: Context, next: () => Promise<unknown>) => Promise<void> {
+  const tracker = new ChatTracker<[Context]>(client, options, (ctx) => ({
+    headers: ctx.headers,
+    body: ctx.request.body,
+  }));
+
+  return async (ctx, next) => {
+    const tracked = tracker.start(ctx);
+    ctx.state.subtext = tracked.session;
+
+    await next();
+
+    // Koa writes ctx.body once every middleware has returned
+    const body = ctx.body;
+    ctx.res.once('finish', () => tracker.record(tracked, ctx.status, body, ctx));
+  };
+}
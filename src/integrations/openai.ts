@@ -0,0 +1,266 @@
+/**
+ * Drop-in wrapper for the OpenAI Node SDK that records chat completions as runs.
+ */
+
+import { RunMetadataOptions, SamplingClientOptions, SubtextClient } from '../client';
+import {
+  ExchangeRecorder,
+  RecorderOptions,
+  mapPromiseResult,
+  overrideProperty,
+} from './recorder';
+import { streamMetadata, tapAsyncIterable } from '../stream';
+
+/**
+ * The parts of a chat completion request the wrapper reads.
+ */
+export interface OpenAIChatCompletionParams {
+  model: string;
+  messages: Array<{
+    role: string;
+    content?: string | Array<{ type: string; text?: string }> | null;
+  }>;
+  stream?: boolean | null;
+  temperature?: number | null;
+  top_p?: number | null;
+  max_tokens?: number | null;
+  max_completion_tokens?: number | null;
+  frequency_penalty?: number | null;
+  presence_penalty?: number | null;
+  [key: string]: any;
+}
+
+interface OpenAIToolCall {
+  function?: { name?: string; arguments?: string };
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface OpenAIChatCompletion {
+  model?: string;
+  choices?: Array<{
+    message?: { content?: string | null; tool_calls?: OpenAIToolCall[] };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAIUsage | null;
+}
+
+interface OpenAIChatCompletionChunk {
+  model?: string;
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<OpenAIToolCall & { index: number }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: OpenAIUsage | null;
+}
+
+/**
+ * The minimal shape of an OpenAI client that can be wrapped.
+ */
+export interface OpenAILike {
+  chat: {
+    completions: {
+      create: (params: any, ...rest: any[]) => any;
+    };
+  };
+}
+
+export interface WrapOpenAIOptions extends RecorderOptions {
+  /** Thread to record into, or a function that picks the thread for each request */
+  threadId: string | ((params: OpenAIChatCompletionParams) => string);
+}
+
+interface CompletionOutput {
+  text: string;
+  toolCalls: Array<{ name: string; arguments: string }>;
+  model?: string;
+  finishReason?: string | null;
+  usage?: OpenAIUsage | null;
+}
+
+function contentToText(content: OpenAIChatCompletionParams['messages'][number]['content']): string {
+  if (!content) {
+    return '';
+  }
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .map((part) => (part.type === 'text' ? part.text || '' : `[${part.type}]`))
+    .join('\n');
+}
+
+/**
+ * The user message a request ends with. Requests that end with a tool result
+ * or an assistant turn, such as the later calls of a tool loop, repeat a user
+ * message that was already recorded.
+ */
+function newUserMessage(params: OpenAIChatCompletionParams): string | undefined {
+  const last = params.messages?.[params.messages.length - 1];
+  return last?.role === 'user' ? contentToText(last.content) || undefined : undefined;
+}
+
+function formatResponse(output: CompletionOutput): string {
+  const toolCalls = output.toolCalls.map(
+    (call) => `[tool_call: ${call.name}(${call.arguments})]`
+  );
+  return [output.text, ...toolCalls].filter(Boolean).join('\n');
+}
+
+function optional(value: number | null | undefined): number | undefined {
+  return value === null ? undefined : value;
+}
+
+/**
+ * Wrap an OpenAI client so that every `chat.completions.create` call is recorded in Subtext.
+ *
+ * The user message a request ends with is recorded as a `Message` and the
+ * assistant output as a `Run`, with the model name, token usage, timing and
+ * sampling parameters. Requests that end with tool results only record a `Run`. Streamed responses are recorded once the stream ends.
+ * Recording happens in the background and never affects the wrapped call;
+ * failures are passed to `onError`.
+ *
+ * @param openai - The OpenAI client to wrap. It is not modified.
+ * @param subtext - The Subtext client to record with
+ * @param options - Wrapper options
+ * @returns A client with the same type as `openai`
+ *
+ * @example
+ * ```typescript
+ * import OpenAI from 'openai';
+ * import { SubtextClient, wrapOpenAI } from '@subtextai/subtext';
+ *
+ * const openai = wrapOpenAI(new OpenAI(), subtext, { threadId: "thread-123" });
+ * const completion = await openai.chat.completions.create({
+ *   model: "gpt-4o",
+ *   messages: [{ role: "user", content: "Hello!" }]
+ * });
+ * ```
+ */
+export function wrapOpenAI<T extends OpenAILike>(
+  openai: T,
+  subtext: SubtextClient<SamplingClientOptions>,
+  options: WrapOpenAIOptions
+): T {
+  const recorder = new ExchangeRecorder(subtext, options);
+
+  const record = (
+    params: OpenAIChatCompletionParams,
+    startedAt: Date,
+    output: CompletionOutput,
+    extra: RunMetadataOptions = {}
+  ) => {
+    let threadId: string;
+    try {
+      threadId = typeof options.threadId === 'function'
+        ? options.threadId(params)
+        : options.threadId;
+    } catch (error) {
+      options.onError?.(error as Error);
+      return;
+    }
+
+    recorder.record({
+      threadId,
+      userMessage: newUserMessage(params),
+      response: formatResponse(output),
+      metadata: {
+        model: output.model || params.model,
+        provider: 'openai',
+        promptTokens: output.usage?.prompt_tokens,
+        completionTokens: output.usage?.completion_tokens,
+        totalTokens: output.usage?.total_tokens,
+        startedAt,
+        endedAt: new Date(),
+        temperature: optional(params.temperature),
+        topP: optional(params.top_p),
+        maxTokens: optional(params.max_completion_tokens ?? params.max_tokens),
+        frequencyPenalty: optional(params.frequency_penalty),
+        presencePenalty: optional(params.presence_penalty),
+        finishReason: output.finishReason || undefined,
+        ...extra,
+      },
+    });
+  };
+
+  const tapStream = (
+    stream: AsyncIterable<OpenAIChatCompletionChunk>,
+    params: OpenAIChatCompletionParams,
+    startedAt: Date
+  ) => {
+    const output: CompletionOutput = { text: '', toolCalls: [] };
+    let firstTokenAt: number | undefined;
+
+    return tapAsyncIterable(stream, {
+      onItem: (chunk) => {
+        output.model = chunk.model || output.model;
+        output.usage = chunk.usage || output.usage;
+        const choice = chunk.choices?.[0];
+        if (!choice) {
+          return;
+        }
+        output.text += choice.delta?.content || '';
+        output.finishReason = choice.finish_reason || output.finishReason;
+        let hasToken = Boolean(choice.delta?.content);
+        for (const call of choice.delta?.tool_calls || []) {
+          const current = output.toolCalls[call.index] || { name: '', arguments: '' };
+          current.name += call.function?.name || '';
+          current.arguments += call.function?.arguments || '';
+          output.toolCalls[call.index] = current;
+          hasToken = hasToken || Boolean(call.function?.name || call.function?.arguments);
+        }
+        // Chunks without content, such as the leading role chunk, don't count as the first token
+        if (hasToken) {
+          firstTokenAt = firstTokenAt ?? Date.now();
+        }
+      },
+      onEnd: (completed, error) =>
+        record(params, startedAt, output, streamMetadata(startedAt, firstTokenAt, completed, error)),
+    });
+  };
+
+  const wrapCreate = (completions: T['chat']['completions']) =>
+    function create(params: OpenAIChatCompletionParams, ...rest: any[]) {
+      const startedAt = new Date();
+      const result = completions.create(params, ...rest);
+
+      if (params?.stream) {
+        return mapPromiseResult(result, (stream) => tapStream(stream, params, startedAt));
+      }
+
+      Promise.resolve(result).then(
+        (completion: OpenAIChatCompletion) => {
+          const choice = completion?.choices?.[0];
+          record(params, startedAt, {
+            text: choice?.message?.content || '',
+            toolCalls: (choice?.message?.tool_calls || []).map((call) => ({
+              name: call.function?.name || '',
+              arguments: call.function?.arguments || '',
+            })),
+            model: completion?.model,
+            finishReason: choice?.finish_reason,
+            usage: completion?.usage,
+          });
+        },
+        // The caller handles errors from the wrapped call
+        () => undefined
+      );
+
+      return result;
+    };
+
+  const completions = overrideProperty(
+    openai.chat.completions,
+    'create',
+    wrapCreate(openai.chat.completions)
+  );
+  const chat = overrideProperty(openai.chat, 'completions', completions);
+  return overrideProperty(openai, 'chat', chat);
+}
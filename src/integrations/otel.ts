@@ -0,0 +1,264 @@
+/**
+ * OpenTelemetry span exporter that records GenAI spans as runs.
+ */
+
+import { RunMetadataOptions, SamplingClientOptions, SubtextClient } from '../client';
+import { Exchange, ExchangeRecorder, RecorderOptions } from './recorder';
+
+/**
+ * The minimal shape of an OpenTelemetry `ReadableSpan` the exporter reads.
+ */
+export interface ReadableSpanLike {
+  name: string;
+  attributes: Record<string, unknown>;
+  events?: Array<{ name: string; attributes?: Record<string, unknown> }>;
+  /** `[seconds, nanoseconds]` since the epoch */
+  startTime: [number, number];
+  /** `[seconds, nanoseconds]` since the epoch */
+  endTime: [number, number];
+  status?: { code: number; message?: string };
+  spanContext: () => { traceId: string; spanId: string };
+}
+
+/**
+ * The result passed to the callback of `export()`, matching OpenTelemetry's `ExportResult`.
+ */
+export interface SpanExportResult {
+  /** 0 for success, 1 for failure */
+  code: number;
+  error?: Error;
+}
+
+export interface SubtextSpanExporterOptions extends RecorderOptions {
+  /**
+   * Span attribute that holds the thread ID (default: 'gen_ai.conversation.id').
+   * Spans without it are recorded into a thread per trace, `trace_<trace ID>`.
+   */
+  threadIdAttribute?: string;
+}
+
+const SUCCESS = 0;
+const FAILED = 1;
+/** `SpanStatusCode.ERROR` */
+const STATUS_ERROR = 2;
+
+interface ChatMessage {
+  role?: string;
+  content: string;
+}
+
+/**
+ * Pick the text out of a message's content, which may be a string or a list of parts.
+ */
+function contentText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => (typeof part === 'string' ? part : typeof part?.text === 'string' ? part.text : ''))
+      .join('');
+  }
+  return '';
+}
+
+/**
+ * Read a prompt or completion, given as plain text, as a JSON list of messages,
+ * or as indexed attributes such as `gen_ai.prompt.0.role` and `gen_ai.prompt.0.content`.
+ */
+function readMessages(attributes: Record<string, unknown> | undefined, key: string): ChatMessage[] | undefined {
+  if (!attributes) {
+    return undefined;
+  }
+
+  const value = attributes[key];
+  if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value);
+      if (Array.isArray(parsed)) {
+        return parsed.map((message) =>
+          typeof message === 'string'
+            ? { content: message }
+            : { role: message?.role, content: contentText(message?.content) }
+        );
+      }
+    } catch {
+      // Plain text
+    }
+    return [{ content: value }];
+  }
+
+  const messages: ChatMessage[] = [];
+  for (let index = 0; `${key}.${index}.content` in attributes || `${key}.${index}.role` in attributes; index++) {
+    const role = attributes[`${key}.${index}.role`];
+    messages.push({
+      role: typeof role === 'string' ? role : undefined,
+      content: contentText(attributes[`${key}.${index}.content`]),
+    });
+  }
+  return messages.length > 0 ? messages : undefined;
+}
+
+/**
+ * Read messages from the span's attributes, or from the event older conventions put them in.
+ */
+function spanMessages(span: ReadableSpanLike, key: string, eventName: string): ChatMessage[] {
+  return (
+    readMessages(span.attributes, key) ??
+    readMessages(span.events?.find((event) => event.name === eventName)?.attributes, key) ??
+    []
+  );
+}
+
+function toMillis([seconds, nanoseconds]: [number, number]): number {
+  return seconds * 1000 + nanoseconds / 1e6;
+}
+
+function numberAttribute(span: ReadableSpanLike, ...keys: string[]): number | undefined {
+  for (const key of keys) {
+    const value = span.attributes[key];
+    if (typeof value === 'number') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function stringAttribute(span: ReadableSpanLike, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = span.attributes[key];
+    if (typeof value === 'string' && value !== '') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function runMetadata(span: ReadableSpanLike): RunMetadataOptions {
+  const startedAt = toMillis(span.startTime);
+  const endedAt = toMillis(span.endTime);
+  const promptTokens = numberAttribute(span, 'gen_ai.usage.input_tokens', 'gen_ai.usage.prompt_tokens');
+  const completionTokens = numberAttribute(span, 'gen_ai.usage.output_tokens', 'gen_ai.usage.completion_tokens');
+  const finishReasons = span.attributes['gen_ai.response.finish_reasons'];
+  const failed = span.status?.code === STATUS_ERROR;
+
+  return {
+    model: stringAttribute(span, 'gen_ai.response.model', 'gen_ai.request.model'),
+    provider: stringAttribute(span, 'gen_ai.provider.name', 'gen_ai.system'),
+    promptTokens,
+    completionTokens,
+    totalTokens: numberAttribute(span, 'gen_ai.usage.total_tokens', 'llm.usage.total_tokens') ??
+      (promptTokens !== undefined && completionTokens !== undefined ? promptTokens + completionTokens : undefined),
+    latencyMs: Math.round(endedAt - startedAt),
+    startedAt: new Date(startedAt),
+    endedAt: new Date(endedAt),
+    temperature: numberAttribute(span, 'gen_ai.request.temperature'),
+    topP: numberAttribute(span, 'gen_ai.request.top_p'),
+    topK: numberAttribute(span, 'gen_ai.request.top_k'),
+    maxTokens: numberAttribute(span, 'gen_ai.request.max_tokens'),
+    frequencyPenalty: numberAttribute(span, 'gen_ai.request.frequency_penalty'),
+    presencePenalty: numberAttribute(span, 'gen_ai.request.presence_penalty'),
+    finishReason: Array.isArray(finishReasons) && typeof finishReasons[0] === 'string'
+      ? finishReasons[0]
+      : undefined,
+    error: failed ? span.status?.message || 'Span ended with an error' : undefined,
+  };
+}
+
+/**
+ * An OpenTelemetry span exporter that records GenAI spans in Subtext.
+ *
+ * Spans that follow the GenAI semantic conventions become a `Message` with the
+ * last user prompt and a `Run` with the completion, model, token usage,
+ * timing and sampling parameters. Prompts and completions are read from the
+ * `gen_ai.prompt` and `gen_ai.completion` attributes, as plain text, a JSON
+ * list of messages or indexed attributes, or from the `gen_ai.content.prompt`
+ * and `gen_ai.content.completion` events. Other spans are ignored.
+ *
+ * Recording failures are passed to `onError`; the export itself always succeeds.
+ *
+ * @example
+ * ```typescript
+ * const provider = new NodeTracerProvider({
+ *   spanProcessors: [new BatchSpanProcessor(new SubtextSpanExporter(subtext))],
+ * });
+ * provider.register();
+ * ```
+ */
+export class SubtextSpanExporter {
+  private recorder: ExchangeRecorder;
+  private threadIdAttribute: string;
+  private pending = new Set<Promise<void>>();
+  private stopped = false;
+
+  constructor(client: SubtextClient<SamplingClientOptions>, options: SubtextSpanExporterOptions = {}) {
+    this.recorder = new ExchangeRecorder(client, options);
+    this.threadIdAttribute = options.threadIdAttribute || 'gen_ai.conversation.id';
+  }
+
+  /**
+   * Record the GenAI spans of a batch.
+   *
+   * @param spans - Finished spans
+   * @param resultCallback - Called once every span of the batch was recorded or failed
+   */
+  export(spans: ReadableSpanLike[], resultCallback: (result: SpanExportResult) => void): void {
+    if (this.stopped) {
+      resultCallback({ code: FAILED, error: new Error('Exporter has been shut down') });
+      return;
+    }
+
+    const exchanges = spans
+      .map((span) => this.toExchange(span))
+      .filter((exchange): exchange is Exchange => exchange !== undefined);
+    const recorded = Promise.all(exchanges.map((exchange) => this.recorder.record(exchange))).then(() => undefined);
+
+    this.pending.add(recorded);
+    recorded.then(() => {
+      this.pending.delete(recorded);
+      resultCallback({ code: SUCCESS });
+    });
+  }
+
+  /**
+   * Wait for the spans that are being recorded.
+   */
+  async forceFlush(): Promise<void> {
+    await Promise.all([...this.pending]);
+  }
+
+  /**
+   * Wait for the spans that are being recorded and stop accepting new ones.
+   */
+  async shutdown(): Promise<void> {
+    this.stopped = true;
+    await this.forceFlush();
+  }
+
+  private toExchange(span: ReadableSpanLike): Exchange | undefined {
+    const completion = spanMessages(span, 'gen_ai.completion', 'gen_ai.content.completion')
+      .filter((message) => !message.role || message.role === 'assistant')
+      .map((message) => message.content)
+      .join('');
+    if (!completion) {
+      return undefined;
+    }
+
+    const prompt = spanMessages(span, 'gen_ai.prompt', 'gen_ai.content.prompt')
+      .filter((message) => !message.role || message.role === 'user');
+    return {
+      threadId: this.spanThreadId(span),
+      userMessage: prompt[prompt.length - 1]?.content || undefined,
+      response: completion,
+      metadata: runMetadata(span),
+    };
+  }
+
+  private spanThreadId(span: ReadableSpanLike): string {
+    const value = span.attributes[this.threadIdAttribute];
+    if ((typeof value === 'string' && value !== '') || typeof value === 'number') {
+      return String(value);
+    }
+    return `trace_${span.spanContext().traceId}`;
+  }
+}
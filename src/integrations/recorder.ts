@@ -0,0 +1,180 @@
+/**
+ * Shared recording logic for the LLM SDK wrappers.
+ */
+
+import { RunMetadataOptions, SamplingClientOptions, SubtextClient } from '../client';
+import { SubtextConflictError } from '../exceptions';
+import { Message, Run } from '../models';
+import { generateId } from '../session';
+
+export interface RecorderOptions {
+  /** Generates message and run IDs (default: prefixed random UUIDs) */
+  generateId?: (kind: 'message' | 'run') => string;
+  /** Called after an exchange has been recorded */
+  onRecorded?: (recorded: RecordedExchange) => void;
+  /** Called when recording fails. The wrapped call is never affected. */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * A user turn and the assistant output it produced.
+ */
+export interface Exchange {
+  threadId: string;
+  /** The user turn, if there was one */
+  userMessage?: string;
+  /** The assistant output */
+  response: string;
+  metadata: RunMetadataOptions;
+}
+
+export interface RecordedExchange {
+  message?: Message;
+  run: Run;
+}
+
+type RecordingClient = Pick<SubtextClient<SamplingClientOptions>, 'thread' | 'message' | 'run'>;
+
+/** Number of thread IDs remembered as already created */
+const MAX_KNOWN_THREADS = 10000;
+
+/**
+ * Records exchanges as `Message`/`Run` pairs, creating each thread the first time it's used.
+ *
+ * Recording never throws; failures are passed to `onError`.
+ */
+export class ExchangeRecorder {
+  private client: RecordingClient;
+  private generateId: (kind: 'message' | 'run') => string;
+  private onRecorded?: (recorded: RecordedExchange) => void;
+  private onError?: (error: Error) => void;
+  private threads = new Map<string, Promise<void>>();
+
+  constructor(client: RecordingClient, options: RecorderOptions = {}) {
+    this.client = client;
+    this.generateId = options.generateId || generateId;
+    this.onRecorded = options.onRecorded;
+    this.onError = options.onError;
+  }
+
+  /**
+   * Record an exchange in the background.
+   *
+   * @returns Promise that resolves once the exchange was recorded or failed. It never rejects.
+   */
+  record(exchange: Exchange): Promise<void> {
+    return this.recordExchange(exchange).catch((error) => this.report(error));
+  }
+
+  private async recordExchange(exchange: Exchange): Promise<void> {
+    // Nothing worth recording, e.g. a call that only produced an empty stream
+    if (!exchange.response) {
+      return;
+    }
+
+    await this.ensureThread(exchange.threadId);
+
+    let message: Message | undefined;
+    if (exchange.userMessage) {
+      const result = await this.client.message({
+        threadId: exchange.threadId,
+        message: exchange.userMessage,
+        messageId: this.generateId('message'),
+      });
+      message = result.sampled ? result : undefined;
+    }
+
+    const run = await this.client.run({
+      ...exchange.metadata,
+      threadId: exchange.threadId,
+      runId: this.generateId('run'),
+      response: exchange.response,
+      messageId: message?.messageId,
+    });
+    if (!run.sampled) {
+      return;
+    }
+
+    try {
+      this.onRecorded?.({ message, run });
+    } catch {
+      // Ignore errors from the callback
+    }
+  }
+
+  private ensureThread(threadId: string): Promise<void> {
+    let created = this.threads.get(threadId);
+    if (!created) {
+      created = this.client.thread({ threadId }).then(
+        () => undefined,
+        (error) => {
+          if (error instanceof SubtextConflictError) {
+            // The thread already exists, e.g. from an earlier process
+            return;
+          }
+          // Try again next time and let the message and run calls decide
+          // whether the thread is usable.
+          if (this.threads.get(threadId) === created) {
+            this.threads.delete(threadId);
+          }
+          this.report(error);
+        }
+      );
+      if (this.threads.size >= MAX_KNOWN_THREADS) {
+        // Maps iterate in insertion order, so this drops the oldest thread
+        this.threads.delete(this.threads.keys().next().value as string);
+      }
+      this.threads.set(threadId, created);
+    }
+    return created;
+  }
+
+  private report(error: unknown): void {
+    try {
+      this.onError?.(error instanceof Error ? error : new Error(String(error)));
+    } catch {
+      // Ignore errors from the callback
+    }
+  }
+}
+
+/**
+ * Read a property from the original object, binding methods to it so that
+ * SDK classes relying on private fields keep working behind a proxy.
+ */
+function forward(target: object, property: PropertyKey): unknown {
+  const value = Reflect.get(target, property, target);
+  return typeof value === 'function' ? value.bind(target) : value;
+}
+
+/**
+ * Create a proxy of `target` that returns `value` for a single property.
+ */
+export function overrideProperty<T extends object>(target: T, property: PropertyKey, value: unknown): T {
+  return new Proxy(target, {
+    get(original, key) {
+      return key === property ? value : forward(original, key);
+    },
+  });
+}
+
+/**
+ * Wrap a promise-like value so that `await` resolves to `map(value)`.
+ *
+ * Unlike `promise.then(map)`, the returned object keeps every other property of
+ * the original, such as the helper methods on SDK-specific promise subclasses.
+ */
+export function mapPromiseResult<P extends PromiseLike<any>>(
+  promise: P,
+  map: (value: Awaited<P>) => Awaited<P>
+): P {
+  return new Proxy(promise, {
+    get(target, property) {
+      if (property === 'then') {
+        return (onFulfilled?: (value: any) => any, onRejected?: (reason: any) => any) =>
+          target.then((value) => map(value as Awaited<P>)).then(onFulfilled, onRejected);
+      }
+      return forward(target, property);
+    },
+  });
+}
@@ -0,0 +1,110 @@
+/**
+ * Hooks that run around every request the client sends.
+ */
+
+import { SubtextAPIError } from './exceptions';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface RequestContext {
+  /** HTTP method of the request */
+  method: HttpMethod;
+  /** API path, e.g. "/api/messages" */
+  endpoint: string;
+  /** Request body. Hooks may modify or replace it. */
+  payload?: Record<string, any>;
+  /** Query string parameters. Hooks may modify or replace them. */
+  params?: Record<string, any>;
+  /** Extra request headers, including the idempotency key. Hooks may add to them. */
+  headers: Record<string, string>;
+  /** Attempt number, starting at 1 and increasing with every retry */
+  attempt: number;
+  /** When this attempt started, in milliseconds since the epoch */
+  startedAt: number;
+  /** Storage shared by the hooks of a single attempt */
+  state: Record<string, any>;
+}
+
+export interface ResponseContext extends RequestContext {
+  /** The response body. Hooks may modify or replace it. */
+  response: any;
+  /** HTTP status of the response */
+  status?: number;
+  /** Milliseconds the attempt took */
+  durationMs: number;
+}
+
+export interface ErrorContext extends RequestContext {
+  /** The error the attempt failed with */
+  error: SubtextAPIError;
+  /** Milliseconds the attempt took */
+  durationMs: number;
+}
+
+/**
+ * Returned by `beforeRequest` to answer a request without sending it, or by
+ * `onError` to recover from a failed attempt.
+ */
+export interface MiddlewareResponse {
+  response: any;
+}
+
+export interface Middleware {
+  /** Called before each attempt is sent. Return `{ response }` to skip sending it. */
+  beforeRequest?: (context: RequestContext) => void | MiddlewareResponse | Promise<void | MiddlewareResponse>;
+  /** Called after each successful attempt */
+  afterResponse?: (context: ResponseContext) => void | Promise<void>;
+  /** Called after each failed attempt, before it is retried. Return `{ response }` to recover. */
+  onError?: (context: ErrorContext) => void | MiddlewareResponse | Promise<void | MiddlewareResponse>;
+}
+
+/**
+ * The registered middleware, run in registration order.
+ */
+export class MiddlewareStack {
+  private middleware: Middleware[] = [];
+
+  /**
+   * Register middleware.
+   *
+   * @returns A function that removes it again
+   */
+  use(middleware: Middleware): () => void {
+    this.middleware.push(middleware);
+    return () => {
+      this.middleware = this.middleware.filter((registered) => registered !== middleware);
+    };
+  }
+
+  /**
+   * Run the `beforeRequest` hooks until one of them answers the request.
+   */
+  async beforeRequest(context: RequestContext): Promise<MiddlewareResponse | undefined> {
+    for (const middleware of [...this.middleware]) {
+      const result = await middleware.beforeRequest?.(context);
+      if (result) {
+        return result;
+      }
+    }
+    return undefined;
+  }
+
+  async afterResponse(context: ResponseContext): Promise<void> {
+    for (const middleware of [...this.middleware]) {
+      await middleware.afterResponse?.(context);
+    }
+  }
+
+  /**
+   * Run the `onError` hooks until one of them recovers from the error.
+   */
+  async onError(context: ErrorContext): Promise<MiddlewareResponse | undefined> {
+    for (const middleware of [...this.middleware]) {
+      const result = await middleware.onError?.(context);
+      if (result) {
+        return result;
+      }
+    }
+    return undefined;
+  }
+}
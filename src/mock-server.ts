@@ -0,0 +1,264 @@
+/**
+ * Local mock of the Subtext API for integration tests.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo, Socket } from 'net';
+import { HttpMethod } from './middleware';
+import { InMemoryBackend, RecordedRequest } from './testing';
+
+export interface ScriptedFailure {
+  /** Only affect requests with this method (default: any) */
+  method?: HttpMethod;
+  /** Only affect requests to this API path, e.g. "/api/runs" or /^\/api\/threads/ (default: any) */
+  endpoint?: string | RegExp;
+  /** Answer with this HTTP status. Leave out to answer normally after `delay`. */
+  status?: number;
+  /** Response body for `status` (default: `{ error: "Scripted failure" }`) */
+  body?: Record<string, any>;
+  /** Response headers for `status` */
+  headers?: Record<string, string>;
+  /** Seconds to send in the Retry-After header */
+  retryAfter?: number;
+  /** Milliseconds to wait before answering (default: 0) */
+  delay?: number;
+  /** Number of requests to affect. Use Infinity for every matching request (default: 1) */
+  times?: number;
+}
+
+export interface MockServerOptions {
+  /** Port to listen on. 0 picks a free port (default: 0) */
+  port?: number;
+  /** Host to listen on (default: 127.0.0.1) */
+  host?: string;
+  /** API keys accepted in the x-api-key header (default: any non-empty key) */
+  apiKeys?: string[];
+  /** Failures to script from the start */
+  failures?: ScriptedFailure[];
+}
+
+export interface MockServer {
+  /** Base URL to pass to `SubtextClient` as `baseUrl`, e.g. "http://127.0.0.1:4010" */
+  url: string;
+  port: number;
+  /** Stores what clients recorded */
+  backend: InMemoryBackend;
+  /** Every API request the server received */
+  requests: RecordedRequest[];
+  /**
+   * Script a failure for the next matching requests.
+   *
+   * @returns A function that removes it again
+   */
+  addFailure(failure: ScriptedFailure): () => void;
+  /** Remove every scripted failure. */
+  clearFailures(): void;
+  /** Forget everything stored, the recorded requests and the scripted failures. */
+  reset(): void;
+  /** Stop the server. */
+  close(): Promise<void>;
+}
+
+/** Control endpoints for scripting the server over HTTP, e.g. from a CI job. */
+const CONTROL_PREFIX = '/__mock';
+const METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'DELETE'];
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.setEncoding('utf8');
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}
+
+function sendJson(
+  response: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
+  response.writeHead(status, { ...headers, 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Start a local HTTP server that implements `/api/threads`, `/api/messages`
+ * and `/api/runs` in memory, with scripted failures.
+ *
+ * Besides the API, the server accepts `POST /__mock/failures` with a
+ * `ScriptedFailure` (or an array of them) as JSON, `DELETE /__mock/failures`
+ * and `POST /__mock/reset`, so failures can be scripted from another process.
+ *
+ * @example
+ * ```typescript
+ * const server = await startMockServer({ apiKeys: ["test-key"] });
+ * const client = new SubtextClient({ apiKey: "test-key", baseUrl: server.url });
+ *
+ * server.addFailure({ endpoint: "/api/runs", status: 429, retryAfter: 1 });
+ * await client.run({ ... }); // Retried after one second
+ *
+ * await server.close();
+ * ```
+ */
+export async function startMockServer(options: MockServerOptions = {}): Promise<MockServer> {
+  const backend = new InMemoryBackend();
+  const requests: RecordedRequest[] = [];
+  let failures: Array<ScriptedFailure & { remaining: number }> = [];
+
+  const addFailure = (failure: ScriptedFailure): (() => void) => {
+    const entry = { ...failure, remaining: failure.times ?? 1 };
+    failures.push(entry);
+    return () => {
+      failures = failures.filter((registered) => registered !== entry);
+    };
+  };
+
+  const takeFailure = (method: HttpMethod, path: string): ScriptedFailure | undefined => {
+    const failure = failures.find((candidate) =>
+      (candidate.method === undefined || candidate.method === method) &&
+      (candidate.endpoint === undefined ||
+        (typeof candidate.endpoint === 'string'
+          ? candidate.endpoint === path
+          : candidate.endpoint.test(path)))
+    );
+    if (failure) {
+      failure.remaining -= 1;
+      if (failure.remaining <= 0) {
+        failures = failures.filter((registered) => registered !== failure);
+      }
+    }
+    return failure;
+  };
+
+  const reset = () => {
+    backend.reset();
+    requests.length = 0;
+    failures = [];
+  };
+
+  const handleControl = (method: string, path: string, body: any, response: ServerResponse) => {
+    if (path === `${CONTROL_PREFIX}/failures` && method === 'POST') {
+      for (const failure of Array.isArray(body) ? body : [body]) {
+        addFailure(failure);
+      }
+      sendJson(response, 201, { data: { failures: failures.length }, status: 201 });
+    } else if (path === `${CONTROL_PREFIX}/failures` && method === 'DELETE') {
+      failures = [];
+      sendJson(response, 200, { data: { failures: 0 }, status: 200 });
+    } else if (path === `${CONTROL_PREFIX}/reset` && method === 'POST') {
+      reset();
+      sendJson(response, 200, { data: { reset: true }, status: 200 });
+    } else {
+      sendJson(response, 404, { error: 'Not found' });
+    }
+  };
+
+  const handle = async (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+    const method = (request.method || 'GET').toUpperCase() as HttpMethod;
+    const text = await readBody(request);
+
+    let data: Record<string, any> | undefined;
+    try {
+      data = text ? JSON.parse(text) : undefined;
+    } catch {
+      sendJson(response, 400, { error: 'Invalid JSON body' });
+      return;
+    }
+
+    if (url.pathname.startsWith(CONTROL_PREFIX)) {
+      handleControl(method, url.pathname, data, response);
+      return;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(request.headers)) {
+      if (typeof value === 'string') {
+        headers[name] = value;
+      }
+    }
+    const params = Object.fromEntries(url.searchParams.entries());
+    requests.push({ method, endpoint: url.pathname, data, params, headers });
+
+    const apiKey = headers['x-api-key'];
+    if (!apiKey || (options.apiKeys && !options.apiKeys.includes(apiKey))) {
+      sendJson(response, 401, { error: 'Invalid API key' });
+      return;
+    }
+    if (!METHODS.includes(method)) {
+      sendJson(response, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    const failure = takeFailure(method, url.pathname);
+    if (failure?.delay) {
+      await sleep(failure.delay);
+    }
+    if (failure?.status !== undefined) {
+      const failureHeaders = { ...failure.headers };
+      if (failure.retryAfter !== undefined) {
+        failureHeaders['Retry-After'] = String(failure.retryAfter);
+      }
+      sendJson(response, failure.status, failure.body ?? { error: 'Scripted failure' }, failureHeaders);
+      return;
+    }
+
+    const result = backend.handle({ method, url: url.pathname, data, params, headers });
+    sendJson(response, result.status, result.data, result.headers);
+  };
+
+  for (const failure of options.failures || []) {
+    addFailure(failure);
+  }
+
+  const server: Server = createServer((request, response) => {
+    handle(request, response).catch((error) => {
+      if (!response.headersSent) {
+        sendJson(response, 500, { error: (error as Error).message });
+      } else {
+        response.destroy();
+      }
+    });
+  });
+
+  // Tracked so that close() can end keep-alive connections; `closeAllConnections()` needs Node.js 18.2
+  const sockets = new Set<Socket>();
+  server.on('connection', (socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, options.host ?? '127.0.0.1', () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address() as AddressInfo;
+  const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${host}:${address.port}`,
+    port: address.port,
+    backend,
+    requests,
+    addFailure,
+    clearFailures: () => {
+      failures = [];
+    },
+    reset,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        sockets.forEach((socket) => socket.destroy());
+      }),
+  };
+}
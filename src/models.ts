@@ -2,6 +2,8 @@
  * Subtext SDK data models and interfaces.
  */
 
+import { Page, PageOptions } from './pagination';
+
 export interface CreateThreadRequest {
   /** Request model for creating a thread. */
   thread_id: string;
@@ -13,6 +15,7 @@ export interface ThreadData {
   id: string;
   thread_id: string;
   user_id?: string;
+  metadata?: Record<string, any>;
   created_at: string;
   modified_at: string;
 }
@@ -23,6 +26,31 @@ export interface CreateThreadResponse {
   status: number;
 }
 
+export interface GetThreadResponse {
+  /** Response model for retrieving a thread. */
+  data: ThreadData;
+  status: number;
+}
+
+export interface ListThreadsResponse {
+  /** Response model for listing threads. */
+  data: ThreadData[];
+  next_cursor?: string | null;
+  status: number;
+}
+
+export interface UpdateThreadRequest {
+  /** Request model for updating a thread. */
+  user_id?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface UpdateThreadResponse {
+  /** Response model for updating a thread. */
+  data: ThreadData;
+  status: number;
+}
+
 export interface CreateMessageRequest {
   /** Request model for creating a user message. */
   thread_id: string;
@@ -45,18 +73,50 @@ export interface CreateMessageResponse {
   status: number;
 }
 
-export interface CreateRunRequest {
+export interface ListMessagesResponse {
+  /** Response model for listing the messages in a thread. */
+  data: MessageData[];
+  next_cursor?: string | null;
+  status: number;
+}
+
+export interface RunMetadata {
+  /** Optional LLM call metadata shared by run requests and responses. */
+  model?: string;
+  provider?: string;
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  latency_ms?: number;
+  time_to_first_token_ms?: number;
+  started_at?: string;
+  ended_at?: string;
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  max_tokens?: number;
+  frequency_penalty?: number;
+  presence_penalty?: number;
+  finish_reason?: string;
+  error?: string;
+  partial?: boolean;
+}
+
+export interface CreateRunRequest extends RunMetadata {
   /** Request model for creating a run. */
   run_id: string;
   thread_id: string;
   response: string;
+  /** The user message this run responds to. */
+  message_id?: string;
 }
 
-export interface RunData {
+export interface RunData extends RunMetadata {
   /** Response data model for a run. */
   run_id: string;
   thread_id: string;
   response: string;
+  message_id?: string;
   created_at: string;
 }
 
@@ -66,6 +126,32 @@ export interface CreateRunResponse {
   status: number;
 }
 
+export interface ListRunsResponse {
+  /** Response model for listing the runs in a thread. */
+  data: RunData[];
+  next_cursor?: string | null;
+  status: number;
+}
+
+export interface ConversationOptions {
+  /** Number of messages and runs to fetch per request */
+  pageSize?: number;
+}
+
+/**
+ * A message or run in a conversation timeline.
+ */
+export type ConversationEntry = Message | Run;
+
+/**
+ * The client operations a `Thread` uses to load its messages and runs.
+ */
+export interface ThreadNavigator {
+  listMessages(threadId: string, options?: PageOptions): Promise<Page<Message>>;
+  listRuns(threadId: string, options?: PageOptions): Promise<Page<Run>>;
+  getConversation(threadId: string, options?: ConversationOptions): AsyncIterable<ConversationEntry>;
+}
+
 export interface ErrorResponse {
   /** Error response model. */
   error: string;
@@ -110,6 +196,11 @@ export class Message {
     return this._data.created_at;
   }
 
+  /** Always true; distinguishes a recorded message from a `NotSampled` result. */
+  get sampled(): true {
+    return true;
+  }
+
   /** Convert the message to a plain object. */
   toDict(): Record<string, any> {
     return { ...this._data };
@@ -131,9 +222,11 @@ export class Message {
  */
 export class Thread {
   private _data: ThreadData;
+  private _navigator?: ThreadNavigator;
 
-  constructor(data: ThreadData) {
+  constructor(data: ThreadData, navigator?: ThreadNavigator) {
     this._data = data;
+    this._navigator = navigator;
   }
 
   /** The unique identifier for this thread. */
@@ -151,6 +244,11 @@ export class Thread {
     return this._data.user_id;
   }
 
+  /** Custom metadata attached to this thread. */
+  get metadata(): Record<string, any> | undefined {
+    return this._data.metadata;
+  }
+
   /** The timestamp when this thread was created. */
   get createdAt(): string {
     return this._data.created_at;
@@ -161,6 +259,45 @@ export class Thread {
     return this._data.modified_at;
   }
 
+  /**
+   * Load the first page of messages in this thread.
+   *
+   * Only available on threads returned by a client.
+   */
+  messages(options?: PageOptions): Promise<Page<Message>> {
+    return this.navigator().listMessages(this.threadId, options);
+  }
+
+  /**
+   * Load the first page of runs in this thread.
+   *
+   * Only available on threads returned by a client.
+   */
+  runs(options?: PageOptions): Promise<Page<Run>> {
+    return this.navigator().listRuns(this.threadId, options);
+  }
+
+  /**
+   * Iterate the messages and runs in this thread, ordered by creation time.
+   *
+   * Only available on threads returned by a client.
+   */
+  conversation(options?: ConversationOptions): AsyncIterable<ConversationEntry> {
+    return this.navigator().getConversation(this.threadId, options);
+  }
+
+  private navigator(): ThreadNavigator {
+    if (!this._navigator) {
+      throw new Error('Thread is not bound to a client');
+    }
+    return this._navigator;
+  }
+
+  /** Always true; distinguishes a recorded thread from a `NotSampled` result. */
+  get sampled(): true {
+    return true;
+  }
+
   /** Convert the thread to a plain object. */
   toDict(): Record<string, any> {
     return { ...this._data };
@@ -200,17 +337,149 @@ export class Run {
     return this._data.response;
   }
 
+  /** The ID of the user message this run responds to. */
+  get messageId(): string | undefined {
+    return this._data.message_id;
+  }
+
   /** The timestamp when this run was created. */
   get createdAt(): string {
     return this._data.created_at;
   }
 
+  /** The model that produced the response. */
+  get model(): string | undefined {
+    return this._data.model;
+  }
+
+  /** The LLM provider, e.g. "openai" or "anthropic". */
+  get provider(): string | undefined {
+    return this._data.provider;
+  }
+
+  /** The number of tokens in the prompt. */
+  get promptTokens(): number | undefined {
+    return this._data.prompt_tokens;
+  }
+
+  /** The number of tokens in the completion. */
+  get completionTokens(): number | undefined {
+    return this._data.completion_tokens;
+  }
+
+  /** The total number of tokens used. */
+  get totalTokens(): number | undefined {
+    return this._data.total_tokens;
+  }
+
+  /** The duration of the LLM call in milliseconds. */
+  get latencyMs(): number | undefined {
+    return this._data.latency_ms;
+  }
+
+  /** Milliseconds until the first token of a streamed response arrived. */
+  get timeToFirstTokenMs(): number | undefined {
+    return this._data.time_to_first_token_ms;
+  }
+
+  /** The timestamp when the LLM call started. */
+  get startedAt(): string | undefined {
+    return this._data.started_at;
+  }
+
+  /** The timestamp when the LLM call ended. */
+  get endedAt(): string | undefined {
+    return this._data.ended_at;
+  }
+
+  /** The sampling temperature. */
+  get temperature(): number | undefined {
+    return this._data.temperature;
+  }
+
+  /** The nucleus sampling probability mass. */
+  get topP(): number | undefined {
+    return this._data.top_p;
+  }
+
+  /** The top-k sampling cutoff. */
+  get topK(): number | undefined {
+    return this._data.top_k;
+  }
+
+  /** The maximum number of tokens requested. */
+  get maxTokens(): number | undefined {
+    return this._data.max_tokens;
+  }
+
+  /** The frequency penalty. */
+  get frequencyPenalty(): number | undefined {
+    return this._data.frequency_penalty;
+  }
+
+  /** The presence penalty. */
+  get presencePenalty(): number | undefined {
+    return this._data.presence_penalty;
+  }
+
+  /** Why the model stopped generating, e.g. "stop" or "length". */
+  get finishReason(): string | undefined {
+    return this._data.finish_reason;
+  }
+
+  /** The error message, if the LLM call failed. */
+  get error(): string | undefined {
+    return this._data.error;
+  }
+
+  /** Whether the response is incomplete, e.g. because a stream was aborted. */
+  get partial(): boolean {
+    return this._data.partial === true;
+  }
+
+  /** Always true; distinguishes a recorded run from a `NotSampled` result. */
+  get sampled(): true {
+    return true;
+  }
+
   /** Convert the run to a plain object. */
   toDict(): Record<string, any> {
     return { ...this._data };
   }
 
   toString(): string {
-    return `Run ${this.runId} in thread ${this.threadId}`;
+    const modelPart = this.model ? ` (model: ${this.model})` : '';
+    return `Run ${this.runId} in thread ${this.threadId}${modelPart}`;
+  }
+}
+
+/**
+ * Returned instead of a `Thread`, `Message` or `Run` when sampling skipped the call.
+ *
+ * Nothing was sent to the API. Check `sampled` to tell the two apart.
+ */
+export class NotSampled {
+  /** Always false; nothing was recorded. */
+  readonly sampled = false as const;
+  /** The kind of call that was skipped. */
+  readonly kind: 'thread' | 'message' | 'run';
+  /** The thread the call belonged to. */
+  readonly threadId: string;
+  /** Whether the thread fell outside the sample rate or was excluded by the filter. */
+  readonly reason: 'rate' | 'filter';
+
+  constructor(kind: 'thread' | 'message' | 'run', threadId: string, reason: 'rate' | 'filter') {
+    this.kind = kind;
+    this.threadId = threadId;
+    this.reason = reason;
+  }
+
+  /** Convert the result to a plain object. */
+  toDict(): Record<string, any> {
+    return { sampled: false, kind: this.kind, thread_id: this.threadId, reason: this.reason };
+  }
+
+  toString(): string {
+    return `Not sampled: ${this.kind} in thread ${this.threadId} (${this.reason})`;
   }
 }
@@ -0,0 +1,25 @@
+/**
+ * Helpers that need Node.js built-ins such as `fs`.
+ *
+ * Published as `@subtextai/subtext/node`, so that the main entry point also
+ * loads in runtimes without them, such as edge functions.
+ */
+
+// Export bulk import
+export {
+  importConversations,
+  parseConversations,
+  detectFormat,
+  ImportFormat,
+  ImportTurn,
+  ImportConversation,
+  ImportOptions,
+  ImportProgress,
+  ImportSummary,
+  ImportFailureGroup,
+  InvalidRecord,
+  ParseResult,
+} from './import';
+
+// Export spool
+export { FileSpool, SpoolOptions, SpoolEntry, SpoolReplayResult } from './spool';
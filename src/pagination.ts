@@ -0,0 +1,95 @@
+/**
+ * Cursor-based pagination helpers.
+ */
+
+export interface PageOptions {
+  /** Maximum number of items per page */
+  limit?: number;
+  /** Cursor returned by a previous page */
+  cursor?: string;
+}
+
+/**
+ * A single page of results from a list endpoint.
+ *
+ * Iterating a page with `for await` yields its items and then keeps fetching
+ * the following pages until the last one.
+ *
+ * @example
+ * ```typescript
+ * const page = await client.listThreads({ userId: "user-456" });
+ * for await (const thread of page) {
+ *   console.log(thread.threadId);
+ * }
+ * ```
+ */
+export class Page<T> implements AsyncIterable<T> {
+  /** The items on this page. */
+  readonly data: T[];
+  /** The cursor for the next page, or null if this is the last page. */
+  readonly nextCursor: string | null;
+
+  private fetchPage: (cursor: string) => Promise<Page<T>>;
+
+  constructor(
+    data: T[],
+    nextCursor: string | null | undefined,
+    fetchPage: (cursor: string) => Promise<Page<T>>
+  ) {
+    this.data = data;
+    this.nextCursor = nextCursor || null;
+    this.fetchPage = fetchPage;
+  }
+
+  /** Whether there are more pages after this one. */
+  hasNextPage(): boolean {
+    return this.nextCursor !== null;
+  }
+
+  /**
+   * Fetch the next page.
+   *
+   * @returns Promise that resolves to the next page, or null if this is the last page
+   */
+  async getNextPage(): Promise<Page<T> | null> {
+    if (this.nextCursor === null) {
+      return null;
+    }
+    return this.fetchPage(this.nextCursor);
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    let page: Page<T> | null = this;
+    while (page) {
+      yield* page.data;
+      page = await page.getNextPage();
+    }
+  }
+}
+
+/**
+ * Merge two sorted async sequences into a single sorted sequence.
+ *
+ * Items are pulled lazily, so only the pages needed so far are fetched. When
+ * two items compare equal, the one from `first` is yielded first.
+ */
+export async function* mergeSorted<A, B>(
+  first: AsyncIterable<A>,
+  second: AsyncIterable<B>,
+  compare: (a: A | B, b: A | B) => number
+): AsyncGenerator<A | B> {
+  const left = first[Symbol.asyncIterator]();
+  const right = second[Symbol.asyncIterator]();
+  let a = await left.next();
+  let b = await right.next();
+
+  while (!a.done || !b.done) {
+    if (b.done || (!a.done && compare(a.value, b.value) <= 0)) {
+      yield a.value as A;
+      a = await left.next();
+    } else {
+      yield b.value;
+      b = await right.next();
+    }
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Client-side throttling of requests to the Subtext API.
+ */
+
+import { SubtextAPIError } from './exceptions';
+
+export interface RateLimitOptions {
+  /** Maximum sustained number of requests sent per second (default: unlimited) */
+  requestsPerSecond?: number;
+  /** Number of requests that may be sent at once after a quiet period (default: requestsPerSecond, at least 1) */
+  burst?: number;
+  /** Maximum number of requests in flight at the same time (default: unlimited) */
+  maxConcurrency?: number;
+}
+
+function closedError(): SubtextAPIError {
+  return new SubtextAPIError('Client was closed; request not sent');
+}
+
+/**
+ * A token bucket combined with a concurrency limit.
+ *
+ * Requests wait in FIFO order until the bucket has a token and fewer than
+ * `maxConcurrency` requests are in flight.
+ */
+export class RateLimiter {
+  private rate?: number;
+  private capacity: number;
+  private maxConcurrency: number;
+  private tokens: number;
+  private refilledAt: number;
+  private active = 0;
+  private waiting: Array<{ resolve: () => void; reject: (error: Error) => void }> = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private closed = false;
+
+  constructor(options: RateLimitOptions = {}) {
+    if (options.requestsPerSecond !== undefined && !(options.requestsPerSecond > 0)) {
+      throw new Error('requestsPerSecond must be a positive number');
+    }
+    if (options.burst !== undefined && !(Number.isInteger(options.burst) && options.burst > 0)) {
+      throw new Error('burst must be a positive integer');
+    }
+    if (
+      options.maxConcurrency !== undefined &&
+      !(Number.isInteger(options.maxConcurrency) && options.maxConcurrency > 0)
+    ) {
+      throw new Error('maxConcurrency must be a positive integer');
+    }
+
+    this.rate = options.requestsPerSecond;
+    this.capacity = options.burst ?? Math.max(1, Math.floor(options.requestsPerSecond ?? 1));
+    this.maxConcurrency = options.maxConcurrency ?? Infinity;
+    this.tokens = this.capacity;
+    this.refilledAt = Date.now();
+  }
+
+  /** Number of requests waiting for their turn. */
+  get pending(): number {
+    return this.waiting.length;
+  }
+
+  /** Number of requests currently in flight. */
+  get inFlight(): number {
+    return this.active;
+  }
+
+  /**
+   * Run `request` once the rate and concurrency limits allow it.
+   *
+   * @throws {SubtextAPIError} If the limiter is closed before the request is sent
+   */
+  async schedule<T>(request: () => Promise<T>): Promise<T> {
+    await new Promise<void>((resolve, reject) => {
+      if (this.closed) {
+        reject(closedError());
+        return;
+      }
+      this.waiting.push({ resolve, reject });
+      this.drain();
+    });
+
+    try {
+      return await request();
+    } finally {
+      this.active -= 1;
+      this.drain();
+    }
+  }
+
+  /**
+   * Stop the refill timer and reject the requests that are still waiting.
+   */
+  close(): void {
+    this.closed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    for (const { reject } of this.waiting.splice(0)) {
+      reject(closedError());
+    }
+  }
+
+  private refill(): void {
+    if (this.rate === undefined) {
+      this.tokens = this.capacity;
+      return;
+    }
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.refilledAt) / 1000) * this.rate);
+    this.refilledAt = now;
+  }
+
+  private drain(): void {
+    while (this.waiting.length > 0 && this.active < this.maxConcurrency) {
+      this.refill();
+      if (this.tokens < 1) {
+        this.scheduleDrain(Math.ceil(((1 - this.tokens) / this.rate!) * 1000));
+        return;
+      }
+      this.tokens -= 1;
+      this.active += 1;
+      this.waiting.shift()!.resolve();
+    }
+  }
+
+  private scheduleDrain(delay: number): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, delay);
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * PII redaction for message and run text.
+ */
+
+/**
+ * How a detected value is replaced.
+ *
+ * - `mask`: every character becomes `*`
+ * - `hash`: `<EMAIL:3f2a9c1b0d4e>`, the same value always gives the same hash
+ * - `token`: a type placeholder such as `<EMAIL>`
+ */
+export type RedactionStrategy = 'mask' | 'hash' | 'token';
+
+export type BuiltInDetector = 'email' | 'phone' | 'creditCard' | 'ssn' | 'ipAddress' | 'secret';
+
+export interface RedactionRule {
+  /** Name reported in redaction counts and used in hash and token replacements */
+  name: string;
+  /** Pattern to search for. It is always applied globally. */
+  pattern: RegExp;
+  /** Extra check on each match, e.g. a checksum */
+  validate?: (match: string) => boolean;
+  /** Replacement strategy for this rule (default: the redactor's strategy) */
+  strategy?: RedactionStrategy;
+}
+
+export interface RedactionReport {
+  /** The field that was redacted */
+  field: 'message' | 'response';
+  /** The thread the message or run belongs to */
+  threadId: string;
+  /** Number of redactions per detector or rule name */
+  counts: Record<string, number>;
+  /** Total number of redactions */
+  total: number;
+}
+
+export interface RedactOptions {
+  /** Built-in detectors to run (default: all of them) */
+  detectors?: BuiltInDetector[];
+  /** Additional patterns to redact */
+  rules?: RedactionRule[];
+  /** Called on the text after all detectors and rules have run, for redaction they can't express */
+  custom?: (text: string) => string;
+  /** How detected values are replaced (default: 'mask') */
+  strategy?: RedactionStrategy;
+  /** Secret key for the `hash` strategy, so hashes can't be reversed by guessing (default: none) */
+  hashKey?: string;
+  /** Called after a message or run was redacted, with the number of redactions per type */
+  onRedact?: (report: RedactionReport) => void;
+}
+
+export interface RedactionResult {
+  /** The redacted text */
+  text: string;
+  /** Number of redactions per detector or rule name */
+  counts: Record<string, number>;
+}
+
+function digits(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+/**
+ * Luhn checksum, used by payment card numbers.
+ */
+function passesLuhn(value: string): boolean {
+  const number = digits(value);
+  if (number.length < 13 || number.length > 19) {
+    return false;
+  }
+  let sum = 0;
+  for (let index = 0; index < number.length; index++) {
+    let digit = Number(number[number.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function isPhoneNumber(value: string): boolean {
+  const count = digits(value).length;
+  // Without a country code, require enough digits to rule out dates and short numbers
+  return value.trim().startsWith('+') ? count >= 7 && count <= 15 : count >= 10 && count <= 15;
+}
+
+function isIPv6(value: string): boolean {
+  const compressed = value.split('::');
+  if (compressed.length > 2) {
+    return false;
+  }
+  const groups = value.split(':').filter(Boolean);
+  if (groups.some((group) => group.length > 4)) {
+    return false;
+  }
+  return compressed.length === 2 ? groups.length >= 1 && groups.length <= 7 : groups.length === 8;
+}
+
+const BUILT_IN_RULES: Record<BuiltInDetector, RedactionRule[]> = {
+  secret: [
+    { name: 'secret', pattern: /\b(?:sk|pk|rk)[-_](?:[A-Za-z]+[-_])?[A-Za-z0-9_-]{16,}/g },
+    { name: 'secret', pattern: /\bAKIA[0-9A-Z]{16}\b/g },
+    { name: 'secret', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g },
+    { name: 'secret', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+    { name: 'secret', pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g },
+    { name: 'secret', pattern: /\bBearer\s+[A-Za-z0-9._~+/-]{20,}=*/g },
+    { name: 'secret', pattern: /\b(?:api[_-]?key|secret|token|password)\s*[:=]\s*["']?[^\s"']{8,}/gi },
+  ],
+  email: [
+    { name: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  ],
+  creditCard: [
+    { name: 'creditCard', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, validate: passesLuhn },
+  ],
+  ssn: [
+    { name: 'ssn', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  ],
+  ipAddress: [
+    {
+      name: 'ipAddress',
+      pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\b/g,
+    },
+    {
+      name: 'ipAddress',
+      pattern: /(?<![\w:])[0-9A-Fa-f]{0,4}(?::[0-9A-Fa-f]{0,4}){2,7}(?![\w:])/g,
+      validate: isIPv6,
+    },
+  ],
+  phone: [
+    {
+      name: 'phone',
+      pattern: /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]?\d{2,4}){1,4}(?!\w)/g,
+      validate: isPhoneNumber,
+    },
+  ],
+};
+
+// Order matters: when matches overlap, the rule listed first wins
+const DETECTOR_ORDER: BuiltInDetector[] = ['secret', 'email', 'creditCard', 'ssn', 'ipAddress', 'phone'];
+
+interface Match {
+  start: number;
+  end: number;
+  rule: RedactionRule;
+  priority: number;
+}
+
+function tokenName(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/[^A-Za-z0-9]+/g, '_').toUpperCase();
+}
+
+/**
+ * Finds and replaces personal data and secrets in text.
+ *
+ * All detectors and rules search the original text. Where matches overlap, the
+ * earliest match wins, then built-in detectors in the order secret, email,
+ * credit card, SSN, IP address, phone, then custom rules.
+ *
+ * @example
+ * ```typescript
+ * const redactor = new Redactor({ strategy: 'token' });
+ * redactor.redact("Mail jane@example.com").text; // "Mail <EMAIL>"
+ * ```
+ */
+export class Redactor {
+  private rules: RedactionRule[];
+  private custom?: (text: string) => string;
+  private strategy: RedactionStrategy;
+  private hashKey?: string;
+
+  constructor(options: RedactOptions = {}) {
+    const detectors = options.detectors ?? DETECTOR_ORDER;
+    this.rules = [
+      ...DETECTOR_ORDER.filter((detector) => detectors.includes(detector))
+        .flatMap((detector) => BUILT_IN_RULES[detector]),
+      ...(options.rules || []),
+    ];
+    this.custom = options.custom;
+    this.strategy = options.strategy ?? 'mask';
+    this.hashKey = options.hashKey;
+  }
+
+  /**
+   * Redact `text`.
+   *
+   * @returns The redacted text and the number of redactions per type. Changes
+   *   made by the `custom` hook are counted once, as `custom`.
+   */
+  redact(text: string): RedactionResult {
+    const counts: Record<string, number> = {};
+    const matches = this.findMatches(text);
+
+    let result = '';
+    let position = 0;
+    for (const match of matches) {
+      const value = text.slice(match.start, match.end);
+      result += text.slice(position, match.start) + this.replace(value, match.rule);
+      position = match.end;
+      counts[match.rule.name] = (counts[match.rule.name] || 0) + 1;
+    }
+    result += text.slice(position);
+
+    if (this.custom) {
+      const customized = this.custom(result);
+      if (customized !== result) {
+        counts.custom = (counts.custom || 0) + 1;
+        result = customized;
+      }
+    }
+
+    return { text: result, counts };
+  }
+
+  private findMatches(text: string): Match[] {
+    const candidates: Match[] = [];
+    this.rules.forEach((rule, priority) => {
+      const flags = rule.pattern.flags.includes('g') ? rule.pattern.flags : `${rule.pattern.flags}g`;
+      const pattern = new RegExp(rule.pattern.source, flags);
+      for (const found of text.matchAll(pattern)) {
+        if (!found[0] || (rule.validate && !rule.validate(found[0]))) {
+          continue;
+        }
+        candidates.push({ start: found.index!, end: found.index! + found[0].length, rule, priority });
+      }
+    });
+
+    candidates.sort((a, b) => a.start - b.start || a.priority - b.priority);
+
+    const selected: Match[] = [];
+    let end = 0;
+    for (const candidate of candidates) {
+      if (candidate.start >= end) {
+        selected.push(candidate);
+        end = candidate.end;
+      }
+    }
+    return selected;
+  }
+
+  private replace(value: string, rule: RedactionRule): string {
+    switch (rule.strategy ?? this.strategy) {
+      case 'hash': {
+        // Loaded here, so redaction without hashing also works on runtimes without Node.js built-ins
+        const { createHash, createHmac } = require('crypto') as typeof import('crypto');
+        const digest = this.hashKey
+          ? createHmac('sha256', this.hashKey).update(value).digest('hex')
+          : createHash('sha256').update(value).digest('hex');
+        return `<${tokenName(rule.name)}:${digest.slice(0, 12)}>`;
+      }
+      case 'token':
+        return `<${tokenName(rule.name)}>`;
+      default:
+        return '*'.repeat(value.length);
+    }
+  }
+}
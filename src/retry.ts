@@ -0,0 +1,171 @@
+/**
+ * Retry policy for requests to the Subtext API.
+ */
+
+export type RetryJitter = 'none' | 'full' | 'equal';
+
+export interface RetryOptions {
+  /** HTTP statuses that are retried (default: 429, 500, 502, 503, 504) */
+  retryableStatuses?: number[];
+  /** Network error codes that are retried (default: ECONNRESET, ECONNREFUSED, ETIMEDOUT, ECONNABORTED, EPIPE, EAI_AGAIN) */
+  retryableErrorCodes?: string[];
+  /** Base delay in milliseconds. Retry n waits baseDelay * 2^n before jitter (default: 1000) */
+  baseDelay?: number;
+  /** Upper bound for the backoff delay in milliseconds (default: 30000) */
+  maxDelay?: number;
+  /** How to randomise the backoff delay (default: 'none') */
+  jitter?: RetryJitter;
+  /** Total time in milliseconds a request may spend on attempts and waits before giving up (default: no limit) */
+  timeBudget?: number;
+  /** Wait as long as the server's Retry-After header asks, instead of the backoff delay (default: true) */
+  respectRetryAfter?: boolean;
+  /** Called before each retry */
+  onRetry?: (info: RetryInfo) => void;
+}
+
+export interface RetryInfo {
+  /** The retry about to be made, starting at 1 */
+  attempt: number;
+  /** Milliseconds until the retry is sent */
+  delay: number;
+  /** The error of the failed attempt */
+  error: unknown;
+  /** HTTP status of the failed attempt, if the server responded */
+  status?: number;
+  /** Network error code of the failed attempt, if any */
+  code?: string;
+}
+
+/**
+ * What the retry policy needs to know about a failed attempt.
+ */
+interface Failure {
+  status?: number;
+  code?: string;
+  retryAfter?: string;
+}
+
+const DEFAULT_RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+const DEFAULT_RETRYABLE_ERROR_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'ECONNABORTED',
+  'EPIPE',
+  'EAI_AGAIN',
+];
+
+function describeFailure(error: any): Failure {
+  const headers = error?.response?.headers;
+  const retryAfter = typeof headers?.get === 'function'
+    ? headers.get('retry-after')
+    : headers?.['retry-after'];
+  return {
+    status: error?.response?.status,
+    code: error?.code,
+    retryAfter: retryAfter == null ? undefined : String(retryAfter),
+  };
+}
+
+/**
+ * Parse a Retry-After header, given in seconds or as an HTTP date, into milliseconds.
+ */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (value.trim() !== '' && Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Decides whether a failed request is retried and how long to wait first.
+ */
+export class RetryPolicy {
+  private maxRetries: number;
+  private retryableStatuses: number[];
+  private retryableErrorCodes: string[];
+  private baseDelay: number;
+  private maxDelay: number;
+  private jitter: RetryJitter;
+  private timeBudget?: number;
+  private respectRetryAfter: boolean;
+  private onRetry?: (info: RetryInfo) => void;
+  private random: () => number;
+
+  constructor(maxRetries: number, options: RetryOptions = {}, random: () => number = Math.random) {
+    this.maxRetries = maxRetries;
+    this.retryableStatuses = options.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES;
+    this.retryableErrorCodes = options.retryableErrorCodes ?? DEFAULT_RETRYABLE_ERROR_CODES;
+    this.baseDelay = options.baseDelay ?? 1000;
+    this.maxDelay = options.maxDelay ?? 30000;
+    this.jitter = options.jitter ?? 'none';
+    this.timeBudget = options.timeBudget;
+    this.respectRetryAfter = options.respectRetryAfter ?? true;
+    this.onRetry = options.onRetry;
+    this.random = random;
+  }
+
+  /**
+   * The backoff delay before retry `attempt`, starting at 1.
+   */
+  backoff(attempt: number): number {
+    const delay = Math.min(this.maxDelay, this.baseDelay * Math.pow(2, attempt));
+    switch (this.jitter) {
+      case 'full':
+        return Math.floor(this.random() * delay);
+      case 'equal':
+        return Math.floor(delay / 2 + this.random() * (delay / 2));
+      default:
+        return delay;
+    }
+  }
+
+  /**
+   * Run `request`, retrying failures the policy considers transient.
+   * The request is passed its attempt number, starting at 1.
+   *
+   * The error of the last attempt is thrown once retries are exhausted, the
+   * error is not retryable, or the next wait would exceed the time budget.
+   */
+  async execute<T>(request: (attempt: number) => Promise<T>): Promise<T> {
+    const startedAt = Date.now();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await request(attempt);
+      } catch (error) {
+        const failure = describeFailure(error);
+        if (attempt > this.maxRetries || !this.isRetryable(failure)) {
+          throw error;
+        }
+
+        const retryAfter = this.respectRetryAfter ? parseRetryAfter(failure.retryAfter) : undefined;
+        const delay = retryAfter ?? this.backoff(attempt);
+
+        if (this.timeBudget !== undefined && Date.now() - startedAt + delay > this.timeBudget) {
+          throw error;
+        }
+
+        try {
+          this.onRetry?.({ attempt, delay, error, status: failure.status, code: failure.code });
+        } catch {
+          // Ignore errors from the callback
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private isRetryable(failure: Failure): boolean {
+    if (failure.status !== undefined) {
+      return this.retryableStatuses.includes(failure.status);
+    }
+    return failure.code !== undefined && this.retryableErrorCodes.includes(failure.code);
+  }
+}
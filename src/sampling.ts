@@ -0,0 +1,128 @@
+/**
+ * Deterministic sampling and filtering of recorded threads.
+ */
+
+import { NotSampled } from './models';
+
+export interface SamplingContext {
+  /** The kind of call being made */
+  kind: 'thread' | 'message' | 'run';
+  threadId: string;
+  /**
+   * The thread's user ID: the one given to the call, or else the one given to
+   * `thread()` for this thread through the same client, if it is still remembered
+   */
+  userId?: string;
+  /** The message or response text, for message and run calls */
+  content?: string;
+}
+
+export interface SamplingOptions {
+  /** Fraction of threads to record, between 0 and 1 (default: 1) */
+  rate?: number;
+  /** Changes which threads fall inside the sample, without changing the rate (default: none) */
+  seed?: string;
+  /**
+   * Return false to skip a call. Called for every thread, message and run that falls inside the sample.
+   *
+   * Message and run calls only see a user ID if they are given `userId`, or if
+   * `thread()` was called for the thread through the same client among the last
+   * 10,000 threads. Pass `userId` to filter by user when threads are created
+   * elsewhere, such as in another process.
+   */
+  filter?: (context: SamplingContext) => boolean;
+}
+
+// Remembering every user ID would grow without bound in long-running processes
+const MAX_REMEMBERED_THREADS = 10000;
+
+/**
+ * Hash a string to an unsigned 32-bit integer: FNV-1a over its UTF-16 code
+ * units, then MurmurHash3's finalizer so that similar IDs land far apart.
+ * Written in plain JavaScript, so sampling works on every runtime.
+ */
+function hash32(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+/**
+ * Whether a thread falls inside the sample.
+ *
+ * The decision depends only on the thread ID, the rate and the seed, so every
+ * call for a thread, in any process, gets the same answer.
+ */
+export function isThreadSampled(threadId: string, rate: number, seed: string = ''): boolean {
+  if (rate >= 1) {
+    return true;
+  }
+  if (rate <= 0) {
+    return false;
+  }
+  return hash32(`${seed}\0${threadId}`) / 0x100000000 < rate;
+}
+
+/**
+ * Decides which calls are recorded.
+ */
+export class Sampler {
+  private rate: number;
+  private seed: string;
+  private filter?: (context: SamplingContext) => boolean;
+  private threadUsers = new Map<string, string | undefined>();
+
+  constructor(options: SamplingOptions = {}) {
+    this.rate = options.rate ?? 1;
+    this.seed = options.seed ?? '';
+    this.filter = options.filter;
+
+    if (!(this.rate >= 0 && this.rate <= 1)) {
+      throw new Error('sampling rate must be between 0 and 1');
+    }
+  }
+
+  /**
+   * Check a call against the sample rate and the filter.
+   *
+   * @returns `NotSampled` if the call should be skipped, otherwise undefined
+   */
+  check(context: SamplingContext): NotSampled | undefined {
+    if (context.kind === 'thread') {
+      this.rememberUser(context.threadId, context.userId);
+    }
+
+    if (!isThreadSampled(context.threadId, this.rate, this.seed)) {
+      return new NotSampled(context.kind, context.threadId, 'rate');
+    }
+
+    if (this.filter) {
+      const userId = context.userId ?? this.threadUsers.get(context.threadId);
+      if (!this.filter({ ...context, userId })) {
+        return new NotSampled(context.kind, context.threadId, 'filter');
+      }
+    }
+
+    return undefined;
+  }
+
+  private rememberUser(threadId: string, userId: string | undefined): void {
+    if (!this.filter || userId === undefined) {
+      return;
+    }
+    this.threadUsers.delete(threadId);
+    this.threadUsers.set(threadId, userId);
+    if (this.threadUsers.size > MAX_REMEMBERED_THREADS) {
+      // Maps iterate in insertion order, so this is the least recently created thread
+      this.threadUsers.delete(this.threadUsers.keys().next().value!);
+    }
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Conversation sessions that track thread, message and run IDs for the caller.
+ */
+
+import { RunMetadataOptions, SampledResult, SubtextClient, SubtextClientOptions } from './client';
+import { SubtextConflictError } from './exceptions';
+import { Message, NotSampled, Run, Thread } from './models';
+import { randomUUID } from './uuid';
+
+export type IdKind = 'thread' | 'message' | 'run';
+
+export interface SessionOptions {
+  /** ID of the thread to record into (default: a generated ID) */
+  threadId?: string;
+  /** User ID to attach to the thread when it's created */
+  userId?: string;
+  /** Create the thread on first use. Set to false to continue an existing thread (default: true) */
+  createThread?: boolean;
+  /** Generates thread, message and run IDs (default: prefixed random UUIDs) */
+  idGenerator?: (kind: IdKind) => string;
+}
+
+export interface UserMessageOptions {
+  /** ID for the message (default: a generated ID) */
+  messageId?: string;
+}
+
+export interface AssistantRunOptions extends RunMetadataOptions {
+  /** ID for the run (default: a generated ID) */
+  runId?: string;
+  /** ID of the user message the run responds to (default: the session's last message) */
+  messageId?: string;
+}
+
+const ID_PREFIXES: Record<IdKind, string> = {
+  thread: 'thread',
+  message: 'msg',
+  run: 'run',
+};
+
+/**
+ * Generate a random, prefixed ID such as `msg_0b6f6c1e-...`.
+ */
+export function generateId(kind: IdKind): string {
+  return `${ID_PREFIXES[kind]}_${randomUUID()}`;
+}
+
+type SessionClient<Options extends SubtextClientOptions> = Pick<SubtextClient<Options>, 'thread' | 'message' | 'run'>;
+
+/**
+ * A conversation bound to a single thread.
+ *
+ * The thread is created the first time the session records something, and
+ * every message and run gets a generated ID unless one is given. Runs are
+ * linked to the most recent user message of the session.
+ *
+ * @example
+ * ```typescript
+ * const session = client.session({ userId: "user-456" });
+ * await session.userMessage("What's the weather in Paris?");
+ * await session.assistantRun("Sunny, 21°C.", { model: "gpt-4o" });
+ * ```
+ */
+export class Session<Options extends SubtextClientOptions = SubtextClientOptions> {
+  private client: SessionClient<Options>;
+  private idGenerator: (kind: IdKind) => string;
+  private _threadId: string;
+  private _userId?: string;
+  private threadCreated?: Promise<SampledResult<Thread, Options> | undefined>;
+  private lastMessageId?: string;
+  private _lastMessage?: Message;
+
+  constructor(client: SessionClient<Options>, options: SessionOptions = {}) {
+    this.client = client;
+    this.idGenerator = options.idGenerator || generateId;
+    this._threadId = options.threadId || this.idGenerator('thread');
+    this._userId = options.userId;
+    if (options.createThread === false) {
+      this.threadCreated = Promise.resolve(undefined);
+    }
+  }
+
+  /** The ID of the session's thread. */
+  get threadId(): string {
+    return this._threadId;
+  }
+
+  /** The user ID attached to the session's thread. */
+  get userId(): string | undefined {
+    return this._userId;
+  }
+
+  /** The last user message recorded by this session. */
+  get lastMessage(): Message | undefined {
+    return this._lastMessage;
+  }
+
+  /**
+   * Create the session's thread if it hasn't been created yet.
+   *
+   * Concurrent calls share a single request. If the thread already exists,
+   * the session continues it. If creating the thread fails, the error is
+   * thrown and the next call tries again.
+   *
+   * @returns Promise that resolves to the created thread, `NotSampled` if sampling
+   *   skipped it, or `undefined` if the session continues an existing thread
+   */
+  start(): Promise<SampledResult<Thread, Options> | undefined> {
+    if (!this.threadCreated) {
+      const created = this.client
+        .thread({ threadId: this._threadId, userId: this._userId })
+        .catch((error) => {
+          if (error instanceof SubtextConflictError) {
+            return undefined;
+          }
+          this.threadCreated = undefined;
+          throw error;
+        });
+      this.threadCreated = created;
+      return created;
+    }
+    return this.threadCreated;
+  }
+
+  /**
+   * Record a user message in the session's thread.
+   *
+   * @param text - The message content
+   * @param options - Optional message ID
+   * @returns Promise that resolves to the created message, or `NotSampled` if sampling skipped it
+   */
+  async userMessage(text: string, options: UserMessageOptions = {}): Promise<SampledResult<Message, Options>> {
+    if (!text) {
+      throw new Error('message is required');
+    }
+
+    const messageId = options.messageId || this.idGenerator('message');
+    // Set before any awaiting so a run recorded right after is linked to this message
+    this.lastMessageId = messageId;
+
+    await this.start();
+    const message = await this.client.message({
+      threadId: this._threadId,
+      message: text,
+      messageId,
+      userId: this._userId,
+    });
+    const result: Message | NotSampled = message;
+    if (result.sampled && this.lastMessageId === messageId) {
+      this._lastMessage = result;
+    }
+    return message;
+  }
+
+  /**
+   * Record an assistant response in the session's thread.
+   *
+   * @param text - The LLM response content
+   * @param options - Optional run ID, message link and run metadata
+   * @returns Promise that resolves to the created run, or `NotSampled` if sampling skipped it
+   */
+  async assistantRun(text: string, options: AssistantRunOptions = {}): Promise<SampledResult<Run, Options>> {
+    if (!text) {
+      throw new Error('response is required');
+    }
+
+    const { runId, messageId, ...metadata } = options;
+    const linkedMessageId = messageId ?? this.lastMessageId;
+    const resolvedRunId = runId || this.idGenerator('run');
+
+    await this.start();
+    return this.client.run({
+      ...metadata,
+      threadId: this._threadId,
+      runId: resolvedRunId,
+      response: text,
+      messageId: linkedMessageId,
+      userId: this._userId,
+    });
+  }
+}
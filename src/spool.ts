@@ -0,0 +1,290 @@
+/**
+ * File-backed spool for payloads that could not be delivered.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { BatchItem, BatchResult } from './batch';
+import { isSpoolableError } from './exceptions';
+
+export interface SpoolOptions {
+  /** Directory that holds the spool file */
+  directory: string;
+  /** Maximum size of the spool file in bytes (default: 10485760) */
+  maxBytes?: number;
+  /** Replay spooled payloads when the client is created (default: true) */
+  replayOnStartup?: boolean;
+  /** Replay spooled payloads every N milliseconds (default: disabled) */
+  replayInterval?: number;
+  /** Called after every background replay */
+  onReplay?: (result: SpoolReplayResult) => void;
+}
+
+/**
+ * A spooled payload as stored on disk, one JSON object per line.
+ */
+export type SpoolEntry = BatchItem & {
+  /** ISO timestamp of when the payload was spooled */
+  spooled_at: string;
+};
+
+export interface SpoolReplayResult {
+  /** Entries that were delivered and removed from the spool */
+  replayed: number;
+  /** Entries that were rejected by the API and removed from the spool */
+  dropped: number;
+  /** Entries still in the spool */
+  remaining: number;
+  /** Unreadable lines that were discarded */
+  corrupt: number;
+}
+
+const SPOOL_FILE = 'subtext-spool.jsonl';
+const ENTRY_KINDS = ['thread', 'message', 'run'];
+
+function isSpoolEntry(value: any): value is SpoolEntry {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    ENTRY_KINDS.includes(value.kind) &&
+    value.payload !== null &&
+    typeof value.payload === 'object'
+  );
+}
+
+function isMissingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+/**
+ * Append-only JSONL spool for thread, message and run payloads.
+ *
+ * Entries are replayed in the order they were spooled. Replay stops at the
+ * first transient failure so that ordering is preserved for the next attempt.
+ * Lines that can't be parsed, for example after a crash mid-write, are skipped.
+ */
+export class FileSpool {
+  /** Absolute path of the spool file. */
+  readonly path: string;
+
+  private send: (item: BatchItem) => Promise<BatchResult>;
+  private directory: string;
+  private maxBytes: number;
+  private onReplay?: (result: SpoolReplayResult) => void;
+  private timer?: ReturnType<typeof setInterval>;
+  private lock: Promise<unknown> = Promise.resolve();
+  private replaying?: Promise<SpoolReplayResult>;
+  /** Incremented by clear(), so a replay doesn't rewrite a spool that was cleared meanwhile */
+  private generation = 0;
+
+  constructor(send: (item: BatchItem) => Promise<BatchResult>, options: SpoolOptions) {
+    if (!options.directory) {
+      throw new Error('Spool directory is required');
+    }
+
+    this.send = send;
+    this.directory = path.resolve(options.directory);
+    this.path = path.join(this.directory, SPOOL_FILE);
+    this.maxBytes = options.maxBytes || 10 * 1024 * 1024;
+    this.onReplay = options.onReplay;
+
+    if (options.replayOnStartup !== false) {
+      this.replayInBackground();
+    }
+
+    if (options.replayInterval) {
+      this.timer = setInterval(() => this.replayInBackground(), options.replayInterval);
+      // Don't keep the process alive just to replay the spool
+      if (typeof this.timer === 'object' && this.timer.unref) {
+        this.timer.unref();
+      }
+    }
+  }
+
+  /**
+   * Save a payload to the spool.
+   *
+   * @returns Promise that resolves to false if the spool is full and the payload was discarded
+   */
+  append(item: BatchItem): Promise<boolean> {
+    return this.exclusive(async () => {
+      const entry: SpoolEntry = { ...item, spooled_at: new Date().toISOString() };
+      const line = `${JSON.stringify(entry)}\n`;
+
+      await fs.mkdir(this.directory, { recursive: true });
+      const currentSize = await this.fileSize();
+      if (currentSize + Buffer.byteLength(line) > this.maxBytes) {
+        return false;
+      }
+
+      await fs.appendFile(this.path, line, 'utf8');
+      return true;
+    });
+  }
+
+  /**
+   * Read all readable entries currently in the spool, oldest first.
+   */
+  entries(): Promise<SpoolEntry[]> {
+    return this.exclusive(async () => (await this.read()).entries);
+  }
+
+  /**
+   * Deliver spooled payloads in order and remove them from the spool.
+   *
+   * Payloads the API rejects with a non-transient error (for example a
+   * validation error) can never succeed and are dropped.
+   *
+   * The spool stays writable while payloads are sent: payloads appended during
+   * a replay are kept for the next one. Concurrent calls share one replay.
+   */
+  replay(): Promise<SpoolReplayResult> {
+    if (!this.replaying) {
+      this.replaying = this.replaySnapshot().finally(() => {
+        this.replaying = undefined;
+      });
+    }
+    return this.replaying;
+  }
+
+  /**
+   * Discard every spooled payload.
+   */
+  clear(): Promise<void> {
+    return this.exclusive(() => {
+      this.generation += 1;
+      return this.write([]);
+    });
+  }
+
+  /**
+   * Stop the background replay timer.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private replayInBackground(): void {
+    this.replay().then(
+      (result) => {
+        try {
+          this.onReplay?.(result);
+        } catch {
+          // Ignore errors from the callback
+        }
+      },
+      () => undefined
+    );
+  }
+
+  /**
+   * Send the entries spooled so far, holding the lock only to read them and to
+   * rewrite the file afterwards.
+   */
+  private async replaySnapshot(): Promise<SpoolReplayResult> {
+    const snapshot = await this.exclusive(async () => ({ ...(await this.read()), generation: this.generation }));
+    const { entries, corrupt } = snapshot;
+    const result: SpoolReplayResult = { replayed: 0, dropped: 0, remaining: 0, corrupt };
+
+    let index = 0;
+    for (; index < entries.length; index++) {
+      const { spooled_at: _spooledAt, ...item } = entries[index];
+      try {
+        await this.send(item as BatchItem);
+        result.replayed += 1;
+      } catch (error) {
+        if (isSpoolableError(error)) {
+          break;
+        }
+        result.dropped += 1;
+      }
+    }
+
+    const remaining = entries.slice(index);
+    result.remaining = remaining.length;
+
+    if (result.replayed > 0 || result.dropped > 0 || result.corrupt > 0) {
+      await this.exclusive(async () => {
+        if (this.generation !== snapshot.generation) {
+          return;
+        }
+        // The spool is append-only, so everything after the snapshot was appended during the replay
+        const { entries: appended } = await this.read(snapshot.size);
+        await this.write([...remaining, ...appended]);
+      });
+    }
+
+    return result;
+  }
+
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(operation, operation);
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+
+  private async fileSize(): Promise<number> {
+    try {
+      return (await fs.stat(this.path)).size;
+    } catch (error) {
+      if (isMissingFile(error)) {
+        return 0;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read the entries of the spool file, starting at a byte offset.
+   *
+   * @returns The entries, the number of unreadable lines and the size of the file
+   */
+  private async read(offset: number = 0): Promise<{ entries: SpoolEntry[]; corrupt: number; size: number }> {
+    let buffer: Buffer;
+    try {
+      buffer = await fs.readFile(this.path);
+    } catch (error) {
+      if (isMissingFile(error)) {
+        return { entries: [], corrupt: 0, size: 0 };
+      }
+      throw error;
+    }
+
+    const entries: SpoolEntry[] = [];
+    let corrupt = 0;
+
+    for (const line of buffer.subarray(offset).toString('utf8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const parsed = JSON.parse(line);
+        if (isSpoolEntry(parsed)) {
+          entries.push(parsed);
+        } else {
+          corrupt += 1;
+        }
+      } catch {
+        corrupt += 1;
+      }
+    }
+
+    return { entries, corrupt, size: buffer.length };
+  }
+
+  private async write(entries: SpoolEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      await fs.rm(this.path, { force: true });
+      return;
+    }
+
+    // Write to a temporary file first so a crash never leaves a half-written spool
+    const tempPath = `${this.path}.tmp`;
+    const content = entries.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+    await fs.writeFile(tempPath, content, 'utf8');
+    await fs.rename(tempPath, this.path);
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Helpers for recording runs from streamed LLM responses.
+ */
+
+import { RunMetadataOptions, SamplingClientOptions, SubtextClient } from './client';
+import { Run } from './models';
+
+export interface TapHooks<T> {
+  /** Called with every item as it passes through */
+  onItem: (item: T) => void;
+  /**
+   * Called once when iteration completes, fails or is stopped early.
+   * `completed` is false if the consumer stopped early or the iterable threw.
+   */
+  onEnd: (completed: boolean, error?: unknown) => void;
+}
+
+/**
+ * Observe the items of an async iterable without changing them.
+ *
+ * The returned object keeps every other property of the original, so SDK
+ * stream objects keep their helper methods. Errors thrown by the hooks are ignored.
+ */
+export function tapAsyncIterable<I extends AsyncIterable<any>>(
+  iterable: I,
+  hooks: TapHooks<I extends AsyncIterable<infer T> ? T : never>
+): I {
+  const safely = (callback: () => void) => {
+    try {
+      callback();
+    } catch {
+      // Observing the stream must never break it
+    }
+  };
+
+  const wrapIterator = (iterator: AsyncIterator<any>): AsyncIterableIterator<any> => {
+    let finished = false;
+    const finish = (completed: boolean, error?: unknown) => {
+      if (!finished) {
+        finished = true;
+        safely(() => hooks.onEnd(completed, error));
+      }
+    };
+
+    return {
+      async next(...args: [] | [any]) {
+        try {
+          const result = await iterator.next(...args);
+          if (result.done) {
+            finish(true);
+          } else {
+            safely(() => hooks.onItem(result.value));
+          }
+          return result;
+        } catch (error) {
+          finish(false, error);
+          throw error;
+        }
+      },
+      async return(value?: any) {
+        finish(false);
+        return iterator.return ? iterator.return(value) : { done: true, value };
+      },
+      async throw(error?: any) {
+        finish(false, error);
+        if (iterator.throw) {
+          return iterator.throw(error);
+        }
+        throw error;
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  };
+
+  return new Proxy(iterable, {
+    get(target, property) {
+      if (property === Symbol.asyncIterator) {
+        return () => wrapIterator(target[Symbol.asyncIterator]());
+      }
+      // Bind methods to the original so classes relying on private fields keep working
+      const value = Reflect.get(target, property, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
+
+/**
+ * Timing and completion metadata for a run recorded from a stream.
+ */
+export function streamMetadata(
+  startedAt: Date,
+  firstTokenAt: number | undefined,
+  completed: boolean,
+  error?: unknown
+): RunMetadataOptions {
+  return {
+    timeToFirstTokenMs: firstTokenAt !== undefined ? Math.max(0, firstTokenAt - startedAt.getTime()) : undefined,
+    partial: completed ? undefined : true,
+    error: error instanceof Error ? error.message : error ? String(error) : undefined,
+  };
+}
+
+export interface CaptureStreamOptions<T> extends RunMetadataOptions {
+  /** ID of the thread the run belongs to */
+  threadId: string;
+  /** Unique identifier for the run */
+  runId: string;
+  /** Extract the text of a chunk (default: handles strings and OpenAI and Anthropic chunks) */
+  extractText?: (chunk: T) => string | undefined | null;
+  /** Called after the run has been recorded */
+  onRun?: (run: Run) => void;
+  /** Called when recording the run fails */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Read the text out of common LLM stream chunk shapes.
+ */
+function defaultExtractText(chunk: any): string | undefined {
+  if (typeof chunk === 'string') {
+    return chunk;
+  }
+  if (!chunk || typeof chunk !== 'object') {
+    return undefined;
+  }
+  // OpenAI chat completion chunks
+  if (Array.isArray(chunk.choices)) {
+    return chunk.choices[0]?.delta?.content ?? undefined;
+  }
+  // Anthropic content_block_delta events
+  if (chunk.delta && typeof chunk.delta.text === 'string') {
+    return chunk.delta.text;
+  }
+  return typeof chunk.text === 'string' ? chunk.text : undefined;
+}
+
+/**
+ * Pass a stream through unchanged while recording its text as a run once it ends.
+ *
+ * The run records the time to first chunk and the total duration, both measured
+ * from the moment the stream is captured. If the consumer stops early or the
+ * stream throws, the text received so far is recorded with `partial: true` and
+ * the error message, if any. Nothing is recorded if no text was received.
+ * Recording happens in the background; its outcome is reported through
+ * `onRun` and `onError`.
+ */
+export function captureStream<I extends AsyncIterable<any>>(
+  client: Pick<SubtextClient<SamplingClientOptions>, 'run'>,
+  stream: I,
+  options: CaptureStreamOptions<I extends AsyncIterable<infer T> ? T : never>
+): I {
+  if (!options.threadId) {
+    throw new Error('threadId is required');
+  }
+  if (!options.runId) {
+    throw new Error('runId is required');
+  }
+
+  const {
+    extractText = defaultExtractText,
+    onRun,
+    onError,
+    ...runOptions
+  } = options;
+
+  const startedAt = new Date();
+  let firstTokenAt: number | undefined;
+  let text = '';
+
+  return tapAsyncIterable(stream, {
+    onItem: (chunk) => {
+      const chunkText = extractText(chunk) || '';
+      // Chunks without text, such as a leading role chunk, don't count as the first token
+      if (chunkText) {
+        firstTokenAt = firstTokenAt ?? Date.now();
+        text += chunkText;
+      }
+    },
+    onEnd: (completed, error) => {
+      if (!text) {
+        return;
+      }
+
+      const metadata = streamMetadata(startedAt, firstTokenAt, completed, error);
+
+      client
+        .run({
+          ...runOptions,
+          response: text,
+          startedAt,
+          endedAt: new Date(),
+          timeToFirstTokenMs: metadata.timeToFirstTokenMs,
+          partial: metadata.partial ?? runOptions.partial,
+          error: metadata.error ?? runOptions.error,
+        })
+        .then(
+          (run) => {
+            if (run.sampled) {
+              onRun?.(run);
+            }
+          },
+          (recordError) => onError?.(recordError)
+        )
+        .catch(() => undefined);
+    },
+  });
+}
@@ -0,0 +1,161 @@
+/**
+ * OpenTelemetry tracing and metrics for the requests the client sends.
+ */
+
+import type { Attributes, Counter, Histogram, Meter, Span, Tracer } from '@opentelemetry/api';
+import { Middleware, RequestContext } from './middleware';
+
+/**
+ * The minimal shape of an OpenTelemetry `TracerProvider`.
+ */
+export interface TracerProviderLike {
+  getTracer: (name: string, version?: string) => unknown;
+}
+
+/**
+ * The minimal shape of an OpenTelemetry `MeterProvider`.
+ */
+export interface MeterProviderLike {
+  getMeter: (name: string, version?: string) => unknown;
+}
+
+export interface TelemetryOptions {
+  /** Tracer provider to create spans with (default: the global tracer provider) */
+  tracerProvider?: TracerProviderLike;
+  /** Meter provider to record metrics with (default: the global meter provider) */
+  meterProvider?: MeterProviderLike;
+  /** Add the trace context to outgoing requests as `traceparent` headers (default: true) */
+  propagateContext?: boolean;
+}
+
+const INSTRUMENTATION_NAME = '@subtextai/subtext';
+
+/**
+ * Load `@opentelemetry/api`, which is an optional peer dependency.
+ */
+function loadApi(): typeof import('@opentelemetry/api') {
+  try {
+    return require('@opentelemetry/api');
+  } catch {
+    throw new Error('telemetry() requires the @opentelemetry/api package. Install it with "npm install @opentelemetry/api"');
+  }
+}
+
+/**
+ * The endpoint with resource IDs replaced, e.g. "/api/threads/{id}/messages".
+ */
+function routeOf(endpoint: string): string {
+  return endpoint.replace(/^(\/api\/(?:threads|messages|runs))\/[^/]+/, '$1/{id}');
+}
+
+function threadIdOf({ endpoint, payload }: RequestContext): string | undefined {
+  if (typeof payload?.thread_id === 'string') {
+    return payload.thread_id;
+  }
+  const match = /^\/api\/threads\/([^/]+)/.exec(endpoint);
+  return match ? decodeURIComponent(match[1]) : undefined;
+}
+
+/**
+ * Create middleware that traces every request attempt and records request metrics.
+ *
+ * Each attempt gets a client span named after its method and route, with the
+ * status code, the number of earlier attempts of the same call
+ * (`http.request.resend_count`), the error class of failed attempts
+ * (`error.type`) and the thread ID (`subtext.thread_id`). Spans are children
+ * of the span that is active when the client is called, and the trace context
+ * is sent to the API in a `traceparent` header.
+ *
+ * Two metrics are recorded: the `subtext.client.requests` counter and the
+ * `subtext.client.request.duration` histogram, in milliseconds.
+ *
+ * Requires the `@opentelemetry/api` package. Register it after middleware that
+ * answers requests itself, so that only requests that are sent get spans.
+ *
+ * @param options - Tracer and meter providers
+ * @returns Middleware to register with `client.use()`
+ *
+ * @example
+ * ```typescript
+ * client.use(telemetry());
+ * ```
+ */
+export function telemetry(options: TelemetryOptions = {}): Middleware {
+  const api = loadApi();
+  const tracer = (options.tracerProvider ?? api.trace.getTracerProvider()).getTracer(INSTRUMENTATION_NAME) as Tracer;
+  const meter = (options.meterProvider ?? api.metrics.getMeterProvider()).getMeter(INSTRUMENTATION_NAME) as Meter;
+  const propagateContext = options.propagateContext ?? true;
+
+  const requests: Counter = meter.createCounter('subtext.client.requests', {
+    description: 'Number of request attempts sent to the Subtext API',
+  });
+  const duration: Histogram = meter.createHistogram('subtext.client.request.duration', {
+    description: 'Duration of request attempts sent to the Subtext API',
+    unit: 'ms',
+  });
+
+  const finish = (
+    context: RequestContext,
+    durationMs: number,
+    status: number | undefined,
+    error?: Error
+  ) => {
+    const span: Span | undefined = context.state.telemetrySpan;
+    if (!span) {
+      return;
+    }
+    delete context.state.telemetrySpan;
+
+    const attributes: Attributes = {
+      'http.request.method': context.method,
+      'http.route': routeOf(context.endpoint),
+    };
+    if (status !== undefined) {
+      attributes['http.response.status_code'] = status;
+    }
+    if (error) {
+      attributes['error.type'] = error.name;
+    }
+
+    span.setAttributes(attributes);
+    if (error) {
+      span.recordException(error);
+      span.setStatus({ code: api.SpanStatusCode.ERROR, message: error.message });
+    }
+    span.end();
+
+    requests.add(1, attributes);
+    duration.record(durationMs, attributes);
+  };
+
+  return {
+    beforeRequest: (context) => {
+      const attributes: Attributes = {
+        'http.request.method': context.method,
+        'http.route': routeOf(context.endpoint),
+        'http.request.resend_count': context.attempt - 1,
+      };
+      const threadId = threadIdOf(context);
+      if (threadId !== undefined) {
+        attributes['subtext.thread_id'] = threadId;
+      }
+
+      const span = tracer.startSpan(
+        `${context.method} ${routeOf(context.endpoint)}`,
+        { kind: api.SpanKind.CLIENT, attributes },
+        api.context.active()
+      );
+      context.state.telemetrySpan = span;
+
+      if (propagateContext) {
+        api.propagation.inject(api.trace.setSpan(api.context.active(), span), context.headers);
+      }
+    },
+    afterResponse: (context) => {
+      finish(context, context.durationMs, context.status);
+    },
+    onError: (context) => {
+      finish(context, context.durationMs, context.error.statusCode, context.error);
+    },
+  };
+}
@@ -0,0 +1,483 @@
+/**
+ * In-memory fake of the Subtext API for unit tests.
+ *
+ * Published as `@subtextai/subtext/testing`, together with the mock API server,
+ * so that the main entry point doesn't load test helpers.
+ */
+
+import { SubtextClient, SubtextClientOptions } from './client';
+import { HttpMethod } from './middleware';
+import { Message, MessageData, Run, RunData, Thread, ThreadData } from './models';
+import { Transport, TransportError, TransportRequest, TransportResponse } from './transport';
+
+export { startMockServer, MockServer, MockServerOptions, ScriptedFailure } from './mock-server';
+
+export interface Fault {
+  /** Only fail requests with this method (default: any) */
+  method?: HttpMethod;
+  /** Only fail requests to this API path, e.g. "/api/runs" or /^\/api\/threads/ (default: any) */
+  endpoint?: string | RegExp;
+  /** Answer with this HTTP status (default: 500, unless `code` is set) */
+  status?: number;
+  /** Response body for `status` (default: `{ error: "Injected fault" }`) */
+  body?: Record<string, any>;
+  /** Response headers for `status`, e.g. `{ "retry-after": "1" }` */
+  headers?: Record<string, string>;
+  /** Fail with this network error code instead of a response, e.g. ECONNRESET, or ECONNABORTED for a timeout */
+  code?: string;
+  /** Milliseconds to wait before failing (default: 0) */
+  delay?: number;
+  /** Number of requests to fail. Use Infinity to fail every matching request (default: 1) */
+  times?: number;
+}
+
+export interface RecordedRequest {
+  method: HttpMethod;
+  /** API path, e.g. "/api/messages" */
+  endpoint: string;
+  data?: Record<string, any>;
+  params?: Record<string, any>;
+  headers: Record<string, string>;
+}
+
+/**
+ * A request the fake API rejects with a non-2xx status.
+ */
+class HttpError extends Error {
+  status: number;
+  body: Record<string, any>;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+    this.body = { error: message };
+  }
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+
+function paginate<T>(items: T[], params: Record<string, any> = {}): { data: T[]; next_cursor: string | null } {
+  const limit = Number(params.limit) || DEFAULT_PAGE_SIZE;
+  const offset = params.cursor ? Number(params.cursor) : 0;
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new HttpError(400, 'Invalid cursor');
+  }
+  const end = offset + limit;
+  return {
+    data: items.slice(offset, end),
+    next_cursor: end < items.length ? String(end) : null,
+  };
+}
+
+function inRange(value: string, after?: string, before?: string): boolean {
+  const time = Date.parse(value);
+  return (!after || time >= Date.parse(after)) && (!before || time < Date.parse(before));
+}
+
+/**
+ * Stores threads, messages and runs and answers API requests the way the
+ * Subtext API does, including 404s for unknown threads, 409s for duplicate
+ * IDs and replaying responses for reused idempotency keys.
+ */
+export class InMemoryBackend {
+  private threads = new Map<string, ThreadData>();
+  private messages = new Map<string, MessageData>();
+  private runs = new Map<string, RunData>();
+  private idempotentResponses = new Map<string, TransportResponse>();
+  private nextId = 1;
+  private lastTimestamp = 0;
+  private now: () => number;
+
+  constructor(now: () => number = Date.now) {
+    this.now = now;
+  }
+
+  /** Every stored thread, in creation order. */
+  get threadData(): ThreadData[] {
+    return [...this.threads.values()];
+  }
+
+  /** Every stored message, in creation order. */
+  get messageData(): MessageData[] {
+    return [...this.messages.values()];
+  }
+
+  /** Every stored run, in creation order. */
+  get runData(): RunData[] {
+    return [...this.runs.values()];
+  }
+
+  /** Remove everything that was stored. */
+  reset(): void {
+    this.threads.clear();
+    this.messages.clear();
+    this.runs.clear();
+    this.idempotentResponses.clear();
+  }
+
+  /**
+   * Answer a request.
+   *
+   * @returns The response, which has a non-2xx status if the request was rejected
+   */
+  handle(request: TransportRequest): TransportResponse {
+    const idempotencyKey = Object.entries(request.headers || {})
+      .find(([name]) => name.toLowerCase() === 'idempotency-key')?.[1];
+    const replayKey = idempotencyKey && `${request.method} ${request.url} ${idempotencyKey}`;
+    if (replayKey && this.idempotentResponses.has(replayKey)) {
+      return this.idempotentResponses.get(replayKey)!;
+    }
+
+    let response: TransportResponse;
+    try {
+      const [status, body] = this.route(request);
+      response = { status, data: body, headers: {} };
+    } catch (error) {
+      if (!(error instanceof HttpError)) {
+        throw error;
+      }
+      response = { status: error.status, data: error.body, headers: {} };
+    }
+
+    if (replayKey && response.status < 500) {
+      this.idempotentResponses.set(replayKey, response);
+    }
+    return response;
+  }
+
+  private route(request: TransportRequest): [number, Record<string, any>] {
+    const { method, data = {}, params } = request;
+    const segments = request.url.split('/').filter(Boolean).map(decodeURIComponent);
+    const [prefix, resource, id, child] = segments;
+    if (prefix !== 'api' || segments.length > 4) {
+      throw new HttpError(404, 'Not found');
+    }
+    // e.g. "GET threads/:id/messages"
+    const route = `${method} ${[resource, id && ':id', child].filter(Boolean).join('/')}`;
+
+    switch (route) {
+      case 'POST threads':
+        return [201, { data: this.createThread(data), status: 201 }];
+      case 'GET threads':
+        return [200, { ...this.listThreads(params), status: 200 }];
+      case 'GET threads/:id':
+        return [200, { data: this.getThread(id), status: 200 }];
+      case 'PUT threads/:id':
+        return [200, { data: this.updateThread(id, data), status: 200 }];
+      case 'DELETE threads/:id':
+        this.deleteThread(id);
+        return [200, { data: { deleted: true }, status: 200 }];
+      case 'GET threads/:id/messages': {
+        this.getThread(id);
+        const items = this.messageData.filter((item) => item.thread_id === id);
+        return [200, { ...paginate(items, params), status: 200 }];
+      }
+      case 'GET threads/:id/runs': {
+        this.getThread(id);
+        const items = this.runData.filter((item) => item.thread_id === id);
+        return [200, { ...paginate(items, params), status: 200 }];
+      }
+      case 'POST messages':
+        return [201, { data: this.createMessage(data), status: 201 }];
+      case 'POST runs':
+        return [201, { data: this.createRun(data), status: 201 }];
+      case 'DELETE messages/:id':
+        if (!this.messages.delete(id)) {
+          throw new HttpError(404, 'Message not found');
+        }
+        return [200, { data: { deleted: true }, status: 200 }];
+      case 'DELETE runs/:id':
+        if (!this.runs.delete(id)) {
+          throw new HttpError(404, 'Run not found');
+        }
+        return [200, { data: { deleted: true }, status: 200 }];
+      default:
+        throw new HttpError(404, 'Not found');
+    }
+  }
+
+  private timestamp(): string {
+    // Strictly increasing, so creation order survives sorting by timestamp
+    this.lastTimestamp = Math.max(this.now(), this.lastTimestamp + 1);
+    return new Date(this.lastTimestamp).toISOString();
+  }
+
+  private requireString(data: Record<string, any>, field: string): string {
+    if (typeof data[field] !== 'string' || data[field] === '') {
+      throw new HttpError(400, `${field} is required`);
+    }
+    return data[field];
+  }
+
+  private getThread(threadId: string): ThreadData {
+    const thread = this.threads.get(threadId);
+    if (!thread) {
+      throw new HttpError(404, 'Thread not found');
+    }
+    return thread;
+  }
+
+  private createThread(data: Record<string, any>): ThreadData {
+    const threadId = this.requireString(data, 'thread_id');
+    if (this.threads.has(threadId)) {
+      throw new HttpError(409, 'Thread already exists');
+    }
+    const createdAt = this.timestamp();
+    const thread: ThreadData = {
+      id: String(this.nextId++),
+      thread_id: threadId,
+      user_id: data.user_id,
+      created_at: createdAt,
+      modified_at: createdAt,
+    };
+    this.threads.set(threadId, thread);
+    return thread;
+  }
+
+  private listThreads(params: Record<string, any> = {}): { data: ThreadData[]; next_cursor: string | null } {
+    const threads = this.threadData.filter((thread) =>
+      (params.user_id === undefined || thread.user_id === params.user_id) &&
+      inRange(thread.created_at, params.created_after, params.created_before) &&
+      inRange(thread.modified_at, params.modified_after, params.modified_before)
+    );
+    return paginate(threads, params);
+  }
+
+  private updateThread(threadId: string, data: Record<string, any>): ThreadData {
+    const thread = this.getThread(threadId);
+    const updated: ThreadData = {
+      ...thread,
+      ...(data.user_id !== undefined && { user_id: data.user_id }),
+      ...(data.metadata !== undefined && { metadata: data.metadata }),
+      modified_at: this.timestamp(),
+    };
+    this.threads.set(threadId, updated);
+    return updated;
+  }
+
+  private deleteThread(threadId: string): void {
+    this.getThread(threadId);
+    this.threads.delete(threadId);
+    for (const store of [this.messages, this.runs] as Map<string, MessageData | RunData>[]) {
+      for (const [id, item] of store) {
+        if (item.thread_id === threadId) {
+          store.delete(id);
+        }
+      }
+    }
+  }
+
+  private createMessage(data: Record<string, any>): MessageData {
+    const threadId = this.requireString(data, 'thread_id');
+    const messageId = this.requireString(data, 'message_id');
+    const text = this.requireString(data, 'message');
+    this.getThread(threadId);
+    if (this.messages.has(messageId)) {
+      throw new HttpError(409, 'Message already exists');
+    }
+    const message: MessageData = {
+      id: String(this.nextId++),
+      thread_id: threadId,
+      message: text,
+      message_id: messageId,
+      created_at: this.timestamp(),
+    };
+    this.messages.set(messageId, message);
+    return message;
+  }
+
+  private createRun(data: Record<string, any>): RunData {
+    const threadId = this.requireString(data, 'thread_id');
+    const runId = this.requireString(data, 'run_id');
+    this.requireString(data, 'response');
+    this.getThread(threadId);
+    if (this.runs.has(runId)) {
+      throw new HttpError(409, 'Run already exists');
+    }
+    const run = { ...data, created_at: this.timestamp() } as RunData;
+    this.runs.set(runId, run);
+    return run;
+  }
+}
+
+/**
+ * Transport that answers requests from an `InMemoryBackend`, optionally
+ * failing some of them.
+ */
+export class InMemoryTransport implements Transport {
+  readonly backend: InMemoryBackend;
+  /** Every request that reached the transport, faulted ones included. */
+  readonly requests: RecordedRequest[] = [];
+  private faults: Array<Fault & { remaining: number }> = [];
+
+  constructor(backend: InMemoryBackend = new InMemoryBackend()) {
+    this.backend = backend;
+  }
+
+  /**
+   * Make matching requests fail. Faults are checked in the order they were added.
+   *
+   * @returns A function that removes the fault again
+   */
+  injectFault(fault: Fault = {}): () => void {
+    const entry = { ...fault, remaining: fault.times ?? 1 };
+    this.faults.push(entry);
+    return () => {
+      this.faults = this.faults.filter((registered) => registered !== entry);
+    };
+  }
+
+  /** Remove every injected fault. */
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  async request<T = any>(request: TransportRequest): Promise<TransportResponse<T>> {
+    this.requests.push({
+      method: request.method,
+      endpoint: request.url,
+      data: request.data,
+      params: request.params,
+      headers: { ...request.headers },
+    });
+
+    const fault = this.takeFault(request);
+    if (fault) {
+      if (fault.delay) {
+        await new Promise((resolve) => setTimeout(resolve, fault.delay));
+      }
+      if (fault.code) {
+        throw new TransportError(`Injected ${fault.code}`, { code: fault.code, config: request });
+      }
+      const status = fault.status ?? 500;
+      throw new TransportError(`Request failed with status code ${status}`, {
+        response: { status, data: fault.body ?? { error: 'Injected fault' }, headers: fault.headers ?? {} },
+        config: request,
+      });
+    }
+
+    // Copy payloads so later changes by the caller don't alter what was stored
+    const response = this.backend.handle(JSON.parse(JSON.stringify(request)));
+    const copy: TransportResponse<T> = JSON.parse(JSON.stringify(response));
+    if (copy.status >= 300) {
+      throw new TransportError(`Request failed with status code ${copy.status}`, {
+        response: copy,
+        config: request,
+      });
+    }
+    return copy;
+  }
+
+  private takeFault(request: TransportRequest): Fault | undefined {
+    const fault = this.faults.find((candidate) =>
+      (candidate.method === undefined || candidate.method === request.method) &&
+      (candidate.endpoint === undefined ||
+        (typeof candidate.endpoint === 'string'
+          ? candidate.endpoint === request.url
+          : candidate.endpoint.test(request.url)))
+    );
+    if (!fault) {
+      return undefined;
+    }
+    fault.remaining -= 1;
+    if (fault.remaining <= 0) {
+      this.faults = this.faults.filter((registered) => registered !== fault);
+    }
+    return fault;
+  }
+}
+
+/**
+ * Options of `InMemorySubtextClient`: those of `SubtextClient`, with every option optional
+ * and without `transport`.
+ */
+export type TestClientOptions = Partial<Omit<SubtextClientOptions, 'transport'>>;
+
+/**
+ * A `SubtextClient` backed by an in-memory fake of the API instead of HTTP.
+ *
+ * It behaves like the real client, including validation, retries, middleware
+ * and error mapping, so tests don't need to mock axios. Retries are disabled
+ * unless `maxRetries` is given.
+ *
+ * @example
+ * ```typescript
+ * const client = createTestClient();
+ * await client.thread({ threadId: "thread-123" });
+ * await client.run({ threadId: "thread-123", runId: "run-1", response: "Hi!" });
+ * expect(client.recordedRuns("thread-123")).toHaveLength(1);
+ *
+ * client.injectFault({ endpoint: "/api/runs", status: 503 });
+ * await expect(client.run({ ... })).rejects.toThrow(SubtextServerError);
+ * ```
+ */
+export class InMemorySubtextClient<
+  Options extends TestClientOptions = Omit<TestClientOptions, 'sampling'>
+> extends SubtextClient<Omit<SubtextClientOptions, 'sampling'> & Options> {
+  private fake: InMemoryTransport;
+
+  constructor(options: Options = {} as Options) {
+    const transport = new InMemoryTransport();
+    super({ apiKey: 'test-api-key', maxRetries: 0, ...options, transport } as SubtextClientOptions & Options);
+    this.fake = transport;
+  }
+
+  /** The fake API storing what the client recorded. */
+  get backend(): InMemoryBackend {
+    return this.fake.backend;
+  }
+
+  /** Every request the client sent, faulted ones included. */
+  get requests(): RecordedRequest[] {
+    return this.fake.requests;
+  }
+
+  /** Threads stored by the fake API, in creation order. */
+  recordedThreads(): Thread[] {
+    return this.backend.threadData.map((data) => new Thread(data, this));
+  }
+
+  /** Messages stored by the fake API, in creation order, optionally for one thread. */
+  recordedMessages(threadId?: string): Message[] {
+    return this.backend.messageData
+      .filter((data) => threadId === undefined || data.thread_id === threadId)
+      .map((data) => new Message(data));
+  }
+
+  /** Runs stored by the fake API, in creation order, optionally for one thread. */
+  recordedRuns(threadId?: string): Run[] {
+    return this.backend.runData
+      .filter((data) => threadId === undefined || data.thread_id === threadId)
+      .map((data) => new Run(data));
+  }
+
+  /**
+   * Make matching requests fail. See `Fault` for the options.
+   *
+   * @returns A function that removes the fault again
+   */
+  injectFault(fault: Fault = {}): () => void {
+    return this.fake.injectFault(fault);
+  }
+
+  /** Remove every injected fault. */
+  clearFaults(): void {
+    this.fake.clearFaults();
+  }
+
+  /** Forget every stored resource, recorded request and injected fault. */
+  reset(): void {
+    this.backend.reset();
+    this.fake.requests.length = 0;
+    this.fake.clearFaults();
+  }
+}
+
+/**
+ * Create an `InMemorySubtextClient` for a test.
+ */
+export function createTestClient<Options extends TestClientOptions = Omit<TestClientOptions, 'sampling'>>(
+  options: Options = {} as Options
+): InMemorySubtextClient<Options> {
+  return new InMemorySubtextClient<Options>(options);
+}
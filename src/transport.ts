@@ -0,0 +1,205 @@
+/**
+ * HTTP transports the client sends its requests through.
+ */
+
+import type { AxiosInstance, AxiosStatic } from 'axios';
+import { HttpMethod } from './middleware';
+
+export interface TransportConfig {
+  /** Base URL every request path is resolved against */
+  baseUrl: string;
+  /** Request timeout in milliseconds */
+  timeout: number;
+  /** Headers sent with every request, including the API key */
+  headers: Record<string, string>;
+}
+
+export interface TransportRequest {
+  method: HttpMethod;
+  /** API path, e.g. "/api/messages" */
+  url: string;
+  /** Request body, sent as JSON */
+  data?: Record<string, any>;
+  /** Query string parameters. Undefined values are left out. */
+  params?: Record<string, any>;
+  /** Extra headers for this request */
+  headers?: Record<string, string>;
+}
+
+export interface TransportResponse<T = any> {
+  /** HTTP status of the response */
+  status: number;
+  /** The parsed response body */
+  data: T;
+  /** Response headers, with lower-case names */
+  headers: Record<string, string>;
+}
+
+/**
+ * Sends a single HTTP request.
+ *
+ * Implementations reject with a `TransportError`, or an error of the same
+ * shape, when the request fails or the response status isn't 2xx, so the
+ * client can map it to a `SubtextAPIError` and decide whether to retry.
+ */
+export interface Transport {
+  request<T = any>(request: TransportRequest): Promise<TransportResponse<T>>;
+  /** Release any resources held by the transport */
+  close?(): void;
+}
+
+/**
+ * A failed HTTP request. Mirrors the fields of an axios error.
+ */
+export class TransportError extends Error {
+  /** Network error code such as ECONNREFUSED, or ECONNABORTED for timeouts */
+  code?: string;
+  /** The response, if the server answered with a non-2xx status */
+  response?: TransportResponse;
+  /** The request that failed */
+  config?: TransportRequest;
+
+  constructor(
+    message: string,
+    details: { code?: string; response?: TransportResponse; config?: TransportRequest } = {}
+  ) {
+    super(message);
+    this.name = 'TransportError';
+    this.code = details.code;
+    this.response = details.response;
+    this.config = details.config;
+  }
+}
+
+/**
+ * Transport backed by axios. Used by default.
+ *
+ * axios is loaded when the first `AxiosTransport` is created, so the client
+ * also loads on runtimes without Node.js built-ins when it uses another transport.
+ */
+export class AxiosTransport implements Transport {
+  private instance: AxiosInstance;
+
+  constructor(config: TransportConfig) {
+    const axios = require('axios') as AxiosStatic;
+    this.instance = axios.create({
+      baseURL: config.baseUrl,
+      timeout: config.timeout,
+      headers: config.headers,
+    });
+  }
+
+  async request<T = any>(request: TransportRequest): Promise<TransportResponse<T>> {
+    // Axios errors already have the shape of a TransportError, so they pass through
+    const response = await this.instance.request<T>({
+      method: request.method,
+      url: request.url,
+      data: request.data,
+      params: request.params,
+      headers: request.headers,
+    });
+    return {
+      status: response.status,
+      data: response.data,
+      headers: { ...(response.headers as Record<string, string>) },
+    };
+  }
+
+  close(): void {
+    this.instance.interceptors.request.clear();
+    this.instance.interceptors.response.clear();
+  }
+}
+
+type FetchFunction = typeof fetch;
+
+/**
+ * Transport backed by the global `fetch`, for runtimes without Node's HTTP
+ * modules such as Cloudflare Workers, Vercel Edge and Deno.
+ *
+ * @example
+ * ```typescript
+ * const client = new SubtextClient({
+ *   apiKey: env.SUBTEXT_API_KEY,
+ *   transport: (config) => new FetchTransport(config),
+ * });
+ * ```
+ */
+export class FetchTransport implements Transport {
+  private config: TransportConfig;
+  private fetch: FetchFunction;
+
+  constructor(config: TransportConfig, fetchImpl?: FetchFunction) {
+    this.config = config;
+    const resolved = fetchImpl ?? globalThis.fetch;
+    if (typeof resolved !== 'function') {
+      throw new Error('fetch is not available in this runtime');
+    }
+    this.fetch = resolved;
+  }
+
+  async request<T = any>(request: TransportRequest): Promise<TransportResponse<T>> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeout);
+
+    let response: Response;
+    let body: string;
+    try {
+      response = await this.fetch(this.buildUrl(request), {
+        method: request.method,
+        headers: { ...this.config.headers, ...request.headers },
+        body: request.data === undefined ? undefined : JSON.stringify(request.data),
+        signal: controller.signal,
+      });
+      body = await response.text();
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new TransportError(`timeout of ${this.config.timeout}ms exceeded`, {
+          code: 'ECONNABORTED',
+          config: request,
+        });
+      }
+      throw new TransportError((error as Error).message, {
+        // Node's fetch reports the network error code on the cause
+        code: (error as any)?.cause?.code ?? (error as any)?.code,
+        config: request,
+      });
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const result: TransportResponse<T> = {
+      status: response.status,
+      data: parseBody(body),
+      headers: Object.fromEntries(response.headers.entries()),
+    };
+    if (!response.ok) {
+      throw new TransportError(`Request failed with status code ${response.status}`, {
+        response: result,
+        config: request,
+      });
+    }
+    return result;
+  }
+
+  private buildUrl(request: TransportRequest): string {
+    const url = new URL(this.config.baseUrl + request.url);
+    for (const [key, value] of Object.entries(request.params || {})) {
+      if (value !== undefined && value !== null) {
+        url.searchParams.append(key, String(value));
+      }
+    }
+    return url.toString();
+  }
+}
+
+function parseBody(body: string): any {
+  if (body === '') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Random UUIDs that work with and without Node.js built-ins.
+ */
+
+/**
+ * Generate a random version 4 UUID.
+ *
+ * Uses the Web Crypto API where it is available, as on edge runtimes and
+ * recent Node.js versions, and Node's crypto module otherwise.
+ */
+export function randomUUID(): string {
+  const webCrypto = (globalThis as { crypto?: { randomUUID?: () => string } }).crypto;
+  if (typeof webCrypto?.randomUUID === 'function') {
+    return webCrypto.randomUUID();
+  }
+  return (require('crypto') as typeof import('crypto')).randomUUID();
+}